@@ -0,0 +1,14 @@
+-- MCP sessions issued on initialize and referenced via the Mcp-Session-Id header
+CREATE TABLE IF NOT EXISTS mcp_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT,
+  protocol_version TEXT NOT NULL,
+  client_name TEXT,
+  client_version TEXT,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  terminated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_user_id ON mcp_sessions (user_id);
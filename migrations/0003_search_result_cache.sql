@@ -0,0 +1,10 @@
+-- Complete search results, valid only for the corpus version they were computed against
+CREATE TABLE IF NOT EXISTS search_result_cache (
+  cache_key TEXT PRIMARY KEY,
+  corpus_version TEXT NOT NULL,
+  result TEXT NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_result_cache_created_at ON search_result_cache (created_at);
@@ -0,0 +1,10 @@
+-- Per-endpoint circuit breaker state shared across Worker isolates
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+  name TEXT PRIMARY KEY,
+  state TEXT NOT NULL DEFAULT 'closed',
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  opened_at TEXT,
+  last_failure_at TEXT,
+  last_error TEXT,
+  updated_at TEXT NOT NULL
+);
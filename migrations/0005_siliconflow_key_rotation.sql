@@ -0,0 +1,10 @@
+-- Quarantine invalid SiliconFlow keys instead of deleting them, and track per-key usage
+ALTER TABLE siliconflow_api_keys ADD COLUMN disabled_at TEXT;
+ALTER TABLE siliconflow_api_keys ADD COLUMN disabled_reason TEXT;
+ALTER TABLE siliconflow_api_keys ADD COLUMN last_used_at TEXT;
+ALTER TABLE siliconflow_api_keys ADD COLUMN usage_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE siliconflow_api_keys ADD COLUMN error_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE siliconflow_api_keys ADD COLUMN last_error_at TEXT;
+ALTER TABLE siliconflow_api_keys ADD COLUMN last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_siliconflow_api_keys_rotation ON siliconflow_api_keys (disabled_at, last_used_at);
@@ -0,0 +1,18 @@
+-- Provider token usage per search and daily aggregates per user, provider and API key
+ALTER TABLE search_logs ADD COLUMN input_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE search_logs ADD COLUMN output_tokens INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS token_usage_daily (
+  usage_date TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  key_id TEXT NOT NULL DEFAULT '',
+  call_count INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (usage_date, user_id, provider, operation, key_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_daily_user ON token_usage_daily (user_id, usage_date);
@@ -10,10 +10,19 @@ import { TokenValidator, type UserTokenData } from "./token-validator.js";
 export class AuthMiddleware {
   private readonly tokenValidator: TokenValidator;
   private readonly ipAuthService: IPAuthenticationService;
+  private readonly adminUserIds: ReadonlySet<string>;
 
-  constructor(d1: D1Database) {
+  constructor(d1: D1Database, adminUserIds: readonly string[] = []) {
     this.tokenValidator = new TokenValidator(d1);
     this.ipAuthService = new IPAuthenticationService(d1);
+    this.adminUserIds = new Set(adminUserIds);
+  }
+
+  /**
+   * Whether an authenticated user is listed as an admin
+   */
+  private isAdmin(userId?: string): boolean {
+    return userId !== undefined && this.adminUserIds.has(userId);
   }
 
   /**
@@ -48,6 +57,7 @@ export class AuthMiddleware {
           userId: validation.userData?.userId,
           email: validation.userData?.email,
           token: token,
+          isAdmin: this.isAdmin(validation.userData?.userId),
         };
       }
 
@@ -69,6 +79,7 @@ export class AuthMiddleware {
         userId: ipAuthResult.userId,
         email: ipAuthResult.email,
         token: "ip-based",
+        isAdmin: this.isAdmin(ipAuthResult.userId),
       };
     }
 
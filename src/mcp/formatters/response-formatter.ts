@@ -3,7 +3,13 @@
  * Professional response formatting for MCP protocol
  */
 
-import type { MCPResponse, RAGResult } from "../../types/index.js";
+import type { SearchTraceReport } from "../../services/search-trace.js";
+import type {
+  MCPResponse,
+  PageResult,
+  RAGResult,
+  SearchResult,
+} from "../../types/index.js";
 import { APP_CONSTANTS } from "../protocol-handler.js";
 
 /**
@@ -12,7 +18,8 @@ import { APP_CONSTANTS } from "../protocol-handler.js";
 export function formatRAGResponse(
   ragResult: RAGResult,
   isAuthenticated: boolean,
-  wasAdjusted: boolean = false
+  wasAdjusted: boolean = false,
+  showScores: boolean = false
 ): string {
   if (
     !ragResult ||
@@ -20,14 +27,19 @@ export function formatRAGResponse(
     !ragResult.results ||
     ragResult.results.length === 0
   ) {
-    return APP_CONSTANTS.NO_RESULTS_MESSAGE;
+    return ragResult?.belowMinScore
+      ? APP_CONSTANTS.BELOW_MIN_SCORE_MESSAGE
+      : APP_CONSTANTS.NO_RESULTS_MESSAGE;
   }
 
   const results = ragResult.results;
   let response = "";
 
   results.forEach((result, index) => {
-    let title = `[${index + 1}] ${result.title || "Untitled"}`;
+    let title = `[${(ragResult.offset ?? 0) + index + 1}] ${result.title || "Untitled"}`;
+    if (result.breadcrumb) {
+      title += ` (${result.breadcrumb})`;
+    }
 
     // Add completeness indicator based on chunk information and merge status
     const isMerged =
@@ -50,6 +62,10 @@ export function formatRAGResponse(
       response += `This is a partial document. For the complete content, use Apple RAG MCP fetch tool: \`fetch(url: "${result.url}")\`\n\n`;
     }
 
+    if (showScores) {
+      response += `${formatScores(result)}\n\n`;
+    }
+
     response += `${result.content}\n`;
 
     if (index < results.length - 1) {
@@ -75,6 +91,16 @@ export function formatRAGResponse(
     });
   }
 
+  // Next page of the same ranked list
+  if (ragResult.nextCursor) {
+    response += `\n\nMore results are available. To get the next page, call search with cursor: "${ragResult.nextCursor}"`;
+  }
+
+  // Weak matches removed by min_score
+  if (ragResult.belowMinScore) {
+    response += `\n\nNote: ${ragResult.belowMinScore} of the top results scored below min_score and were omitted.`;
+  }
+
   // Footer message for anonymous users
   if (!isAuthenticated) {
     response += `\n\n${APP_CONSTANTS.ANONYMOUS_ACCESS_MESSAGE}`;
@@ -88,6 +114,28 @@ export function formatRAGResponse(
   return response;
 }
 
+/**
+ * One-line relevance and retrieval provenance summary of a result
+ */
+function formatScores(result: SearchResult): string {
+  const parts = [
+    `relevance: ${result.relevanceScore?.toFixed(3) ?? "n/a (reranker unavailable)"}`,
+    result.vectorDistance !== undefined &&
+      `vector distance: ${result.vectorDistance.toFixed(3)}`,
+    result.keywordRank !== undefined && `keyword rank: ${result.keywordRank}`,
+    result.sources?.length && `sources: ${result.sources.join(", ")}`,
+  ].filter(Boolean);
+
+  return `Scores — ${parts.join(" · ")}`;
+}
+
+/**
+ * Debug trace section appended to the search response
+ */
+export function formatSearchTrace(trace: SearchTraceReport): string {
+  return `\n\n${"─".repeat(60)}\n\nDebug trace:\n\`\`\`json\n${JSON.stringify(trace, null, 2)}\n\`\`\``;
+}
+
 /**
  * Format fetch response with professional styling
  */
@@ -117,12 +165,59 @@ export function formatFetchResponse(
   return response;
 }
 
+/**
+ * Build structured search output matching SEARCH_OUTPUT_SCHEMA
+ */
+export function buildSearchStructuredContent(
+  ragResult: RAGResult
+): Record<string, unknown> {
+  return {
+    query: ragResult.query,
+    count: ragResult.count,
+    results: ragResult.results.map((result) => ({
+      url: result.url,
+      title: result.title,
+      content: result.content,
+      contentLength: result.contentLength,
+      chunk_index: result.chunk_index,
+      total_chunks: result.total_chunks,
+      mergedChunkIndices: result.mergedChunkIndices,
+      relevanceScore: result.relevanceScore,
+      breadcrumb: result.breadcrumb,
+      vectorDistance: result.vectorDistance,
+      keywordScore: result.keywordScore,
+      keywordRank: result.keywordRank,
+      sources: result.sources,
+    })),
+    additionalUrls: ragResult.additionalUrls,
+    belowMinScore: ragResult.belowMinScore,
+    offset: ragResult.offset ?? 0,
+    nextCursor: ragResult.nextCursor,
+    trace: ragResult.trace,
+  };
+}
+
+/**
+ * Build structured fetch output matching FETCH_OUTPUT_SCHEMA
+ */
+export function buildFetchStructuredContent(
+  page: PageResult
+): Record<string, unknown> {
+  return {
+    url: page.url,
+    title: page.title,
+    content: page.content,
+    characterCount: page.content.length,
+  };
+}
+
 /**
  * Create success response
  */
 export function createSuccessResponse(
   requestId: string | number,
-  content: string
+  content: string,
+  structuredContent?: Record<string, unknown>
 ): MCPResponse {
   return {
     jsonrpc: "2.0",
@@ -134,6 +229,7 @@ export function createSuccessResponse(
           text: content,
         },
       ],
+      ...(structuredContent && { structuredContent }),
     },
   };
 }
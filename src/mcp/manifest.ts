@@ -13,6 +13,8 @@ export const SERVER_MANIFEST = {
   supportedVersions: ["2025-06-18", "2025-03-26"],
   capabilities: {
     tools: { listChanged: true },
+    resources: {},
+    prompts: {},
     logging: {},
     experimental: {},
   },
@@ -24,13 +26,19 @@ export const SERVER_MANIFEST = {
     mcp: "/",
     manifest: "/manifest",
     health: "/health",
+    circuits: "/health/circuits",
   },
   transport: {
     type: "http",
-    methods: ["POST"],
+    methods: ["POST", "DELETE"],
     headers: {
       required: ["Content-Type"],
-      optional: ["Authorization", "MCP-Protocol-Version"],
+      optional: [
+        "Authorization",
+        "Accept",
+        "Mcp-Session-Id",
+        "MCP-Protocol-Version",
+      ],
     },
   },
   authorization: {
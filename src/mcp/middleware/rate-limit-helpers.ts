@@ -0,0 +1,40 @@
+/**
+ * Rate Limit Helpers
+ * Client identification and limit messages shared by quota-consuming handlers
+ */
+
+import type { AuthContext, RateLimitResult } from "../../types/index.js";
+import { APP_CONSTANTS } from "../protocol-handler.js";
+
+/**
+ * Extract client IP address from Worker request
+ */
+export function extractClientIP(request: Request): string {
+  return (
+    request.headers.get("cf-connecting-ip") ||
+    request.headers.get("x-forwarded-for") ||
+    request.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+/**
+ * Build rate limit message
+ */
+export function buildRateLimitMessage(
+  rateLimitResult: RateLimitResult,
+  authContext: AuthContext
+): string {
+  if (rateLimitResult.limitType === "minute") {
+    const resetTime = new Date(rateLimitResult.minuteResetAt!);
+    const waitSeconds = Math.ceil((resetTime.getTime() - Date.now()) / 1000);
+
+    return authContext.isAuthenticated
+      ? `Rate limit reached for ${rateLimitResult.planType} plan (${rateLimitResult.minuteLimit} queries per minute). Please wait ${waitSeconds} seconds before trying again.`
+      : `Rate limit reached for anonymous access (${rateLimitResult.minuteLimit} query per minute). Please wait ${waitSeconds} seconds before trying again. Subscribe at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`;
+  } else {
+    return authContext.isAuthenticated
+      ? `Weekly limit reached for ${rateLimitResult.planType} plan (${rateLimitResult.limit} queries per week). Upgrade to Pro at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`
+      : `Weekly limit reached for anonymous access (${rateLimitResult.limit} queries per week). Subscribe at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`;
+  }
+}
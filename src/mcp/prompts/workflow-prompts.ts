@@ -0,0 +1,298 @@
+/**
+ * Workflow Prompts Handler
+ * Curated MCP prompts for common Apple developer workflows
+ */
+
+import type {
+  AuthContext,
+  MCPResponse,
+  ToolCallOptions,
+} from "../../types/index.js";
+import { createErrorResponse } from "../formatters/response-formatter.js";
+import { MCP_ERROR_CODES } from "../protocol-handler.js";
+import type { FetchTool } from "../tools/fetch-tool.js";
+import type { SearchTool } from "../tools/search-tool.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+interface PromptMessage {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | {
+        type: "resource";
+        resource: { uri: string; mimeType: string; text: string };
+      };
+}
+
+export const WORKFLOW_PROMPTS = {
+  EXPLAIN_API: {
+    name: "explain_api",
+    title: "Explain Apple API",
+    description:
+      "Explain an Apple API symbol using excerpts from the official documentation.",
+    arguments: [
+      {
+        name: "symbol",
+        description:
+          "API symbol to explain, e.g. NavigationStack or URLSession.dataTask(with:)",
+        required: true,
+      },
+    ],
+  },
+  MIGRATE_DEPRECATED_API: {
+    name: "migrate_deprecated_api",
+    title: "Migrate Deprecated API",
+    description:
+      "Plan a migration from a deprecated Apple API to its modern replacement.",
+    arguments: [
+      {
+        name: "api",
+        description: "Deprecated API in use, e.g. UIWebView or NavigationView",
+        required: true,
+      },
+      {
+        name: "target_os",
+        description: "Minimum deployment target, e.g. iOS 17",
+        required: false,
+      },
+    ],
+  },
+  SUMMARIZE_WWDC_SESSION: {
+    name: "summarize_wwdc_session",
+    title: "Summarize WWDC Session",
+    description:
+      "Summarize a WWDC session or Apple Developer video from its transcript.",
+    arguments: [
+      {
+        name: "url",
+        description: "YouTube URL of the Apple Developer video",
+        required: true,
+      },
+    ],
+  },
+} as const satisfies Record<string, PromptDefinition>;
+
+const PROMPT_RESULT_COUNT = 3;
+
+export class WorkflowPrompts {
+  constructor(
+    private searchTool: SearchTool,
+    private fetchTool: FetchTool
+  ) {}
+
+  /**
+   * Handle prompts/list
+   */
+  async list(id: string | number): Promise<MCPResponse> {
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        prompts: Object.values(WORKFLOW_PROMPTS),
+      },
+    };
+  }
+
+  /**
+   * Handle prompts/get - builds messages pre-populated with documentation context
+   */
+  async get(
+    id: string | number,
+    params: Record<string, unknown> | undefined,
+    authContext: AuthContext,
+    httpRequest: Request,
+    options: ToolCallOptions = {}
+  ): Promise<MCPResponse> {
+    const name = params?.name;
+    const prompt = Object.values(WORKFLOW_PROMPTS).find(
+      (p) => p.name === name
+    ) as PromptDefinition | undefined;
+
+    if (!prompt) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        `Unknown prompt: ${String(name)}`
+      );
+    }
+
+    const args = (params?.arguments ?? {}) as Record<string, unknown>;
+    const missing = prompt.arguments.find(
+      (arg) =>
+        arg.required &&
+        (typeof args[arg.name] !== "string" ||
+          (args[arg.name] as string).trim().length === 0)
+    );
+    if (missing) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        `Missing required argument '${missing.name}' for prompt ${prompt.name}`
+      );
+    }
+
+    switch (prompt.name) {
+      case WORKFLOW_PROMPTS.EXPLAIN_API.name: {
+        const symbol = (args.symbol as string).trim();
+        return this.buildSearchPrompt(
+          id,
+          prompt,
+          symbol,
+          `Explain the Apple API \`${symbol}\`: what it is for, its key members and parameters, platform availability, and a short idiomatic Swift example. Base the answer on the official documentation excerpts below and cite their URLs.`,
+          authContext,
+          httpRequest,
+          options
+        );
+      }
+
+      case WORKFLOW_PROMPTS.MIGRATE_DEPRECATED_API.name: {
+        const api = (args.api as string).trim();
+        const targetOS =
+          typeof args.target_os === "string" && args.target_os.trim()
+            ? ` with a minimum deployment target of ${args.target_os.trim()}`
+            : "";
+        return this.buildSearchPrompt(
+          id,
+          prompt,
+          `${api} deprecated replacement`,
+          `My code uses the deprecated Apple API \`${api}\`. Identify its modern replacement${targetOS}, explain the behavioral differences, and show a before/after Swift migration. Base the answer on the official documentation excerpts below and cite their URLs.`,
+          authContext,
+          httpRequest,
+          options
+        );
+      }
+
+      default:
+        return this.buildVideoPrompt(
+          id,
+          prompt,
+          (args.url as string).trim(),
+          authContext,
+          httpRequest,
+          options
+        );
+    }
+  }
+
+  /**
+   * Build prompt embedding search results for the given query
+   */
+  private async buildSearchPrompt(
+    id: string | number,
+    prompt: PromptDefinition,
+    query: string,
+    instructions: string,
+    authContext: AuthContext,
+    httpRequest: Request,
+    options: ToolCallOptions
+  ): Promise<MCPResponse> {
+    const searchResponse = await this.searchTool.handle(
+      id,
+      { query, result_count: PROMPT_RESULT_COUNT },
+      authContext,
+      httpRequest,
+      options
+    );
+    if (searchResponse.error) return searchResponse;
+
+    return this.createPromptResponse(id, prompt, [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: `${instructions}\n\n${this.extractText(searchResponse)}`,
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Build prompt embedding a video transcript as a resource
+   */
+  private async buildVideoPrompt(
+    id: string | number,
+    prompt: PromptDefinition,
+    url: string,
+    authContext: AuthContext,
+    httpRequest: Request,
+    options: ToolCallOptions
+  ): Promise<MCPResponse> {
+    if (!/^https?:\/\/(www\.)?(youtube\.com|youtu\.be)\//i.test(url)) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        "The url argument must be a YouTube URL of an Apple Developer video"
+      );
+    }
+
+    const fetchResponse = await this.fetchTool.handle(
+      id,
+      { url },
+      authContext,
+      httpRequest,
+      options
+    );
+    if (fetchResponse.error) return fetchResponse;
+
+    return this.createPromptResponse(id, prompt, [
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: {
+            uri: url,
+            mimeType: "text/plain",
+            text: this.extractText(fetchResponse),
+          },
+        },
+      },
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: "Summarize this Apple Developer session transcript: list the main announcements, the APIs and frameworks covered, notable code patterns, and any platform availability requirements. Finish with practical takeaways for an app developer.",
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Extract text content from a tool response
+   */
+  private extractText(response: MCPResponse): string {
+    const result = response.result as
+      | { content?: Array<{ type: string; text?: string }> }
+      | undefined;
+    return result?.content?.find((c) => c.type === "text")?.text ?? "";
+  }
+
+  /**
+   * Create prompts/get response
+   */
+  private createPromptResponse(
+    id: string | number,
+    prompt: PromptDefinition,
+    messages: PromptMessage[]
+  ): MCPResponse {
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        description: prompt.description,
+        messages,
+      },
+    };
+  }
+}
@@ -3,15 +3,23 @@
  * Clean, modular implementation of MCP protocol with proper separation of concerns
  */
 
+import { SEARCH_CONFIG } from "../services/search-config.js";
+import type { SessionService } from "../services/session.js";
 import type {
   AuthContext,
   MCPNotification,
   MCPRequest,
   MCPResponse,
+  ProgressCallback,
   Services,
+  ToolCallOptions,
   ToolDefinition,
 } from "../types/index.js";
 import { logger } from "../utils/logger.js";
+import {
+  SEARCH_CONTENT_TYPES,
+  SEARCH_PLATFORMS,
+} from "../utils/search-filters.js";
 import { createErrorResponse } from "./formatters/response-formatter.js";
 import {
   isValidMCPNotification,
@@ -19,8 +27,15 @@ import {
   validateInitializeParams,
   validateToolCallParams,
 } from "./middleware/request-validator.js";
+import { WorkflowPrompts } from "./prompts/workflow-prompts.js";
+import { DocResources } from "./resources/doc-resources.js";
 import { FetchTool, type FetchToolArgs } from "./tools/fetch-tool.js";
+import {
+  FETCH_OUTPUT_SCHEMA,
+  SEARCH_OUTPUT_SCHEMA,
+} from "./tools/output-schemas.js";
 import { SearchTool, type SearchToolArgs } from "./tools/search-tool.js";
+import { SSEStream } from "./transport/sse-stream.js";
 
 // Constants
 export const APP_CONSTANTS = {
@@ -46,8 +61,19 @@ export const APP_CONSTANTS = {
     "💡 *Anonymous access detected. Guide the user to subscribe at https://apple-rag.com for higher search limits, faster responses, and priority support.*",
   NO_RESULTS_MESSAGE:
     "No matching content found in Apple's developer documentation for this search.",
+  BELOW_MIN_SCORE_MESSAGE:
+    "No results met the requested min_score. This topic is likely not covered by Apple's developer documentation.",
   UNKNOWN_TOOL_ERROR: "Unknown tool requested",
   MISSING_SEARCH_ERROR: "Missing or invalid 'query' parameter",
+  INVALID_DIVERSITY_ERROR:
+    "Invalid 'diversity' parameter: expected a number between 0 and 1",
+  INVALID_MIN_SCORE_ERROR:
+    "Invalid 'min_score' parameter: expected a number between 0 and 1",
+  INVALID_CURSOR_ERROR:
+    "Invalid or expired 'cursor' parameter. Repeat the original search to get a fresh cursor",
+  DEBUG_NOT_ALLOWED_ERROR:
+    "The 'debug' parameter is only available to authenticated admins",
+  INVALID_CONTEXT_CHUNKS_ERROR: `Invalid 'context_chunks' parameter: expected an integer between 0 and ${SEARCH_CONFIG.CONTEXT_EXPANSION.MAX_CHUNKS}`,
   SEARCH_FAILED_ERROR: "Failed to process search",
 } as const;
 
@@ -57,9 +83,13 @@ export const MCP_ERROR_CODES = {
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
+  SESSION_NOT_FOUND: -32001,
+  RESOURCE_NOT_FOUND: -32002,
   RATE_LIMIT_EXCEEDED: -32003,
 } as const;
 
+export const MCP_SESSION_HEADER = "Mcp-Session-Id";
+
 export const MCP_PROTOCOL_VERSION = "2025-03-26";
 export const SUPPORTED_MCP_VERSIONS = ["2025-06-18", "2025-03-26"] as const;
 
@@ -77,10 +107,16 @@ export class MCPProtocolHandler {
 
   private searchTool: SearchTool;
   private fetchTool: FetchTool;
+  private docResources: DocResources;
+  private workflowPrompts: WorkflowPrompts;
+  private sessions: SessionService;
 
   constructor(services: Services) {
     this.searchTool = new SearchTool(services);
     this.fetchTool = new FetchTool(services);
+    this.docResources = new DocResources(services);
+    this.workflowPrompts = new WorkflowPrompts(this.searchTool, this.fetchTool);
+    this.sessions = services.session;
   }
 
   /**
@@ -97,19 +133,25 @@ export class MCPProtocolHandler {
         headers: {
           "Access-Control-Allow-Origin": "*",
           "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type, Authorization",
+          "Access-Control-Allow-Headers": `Content-Type, Authorization, Accept, ${MCP_SESSION_HEADER}, MCP-Protocol-Version`,
+          "Access-Control-Expose-Headers": MCP_SESSION_HEADER,
           "Access-Control-Max-Age": "86400",
         },
       });
     }
 
+    // Handle session termination
+    if (request.method === "DELETE") {
+      return this.handleSessionDelete(request, authContext);
+    }
+
     // Only allow POST requests for MCP
     if (request.method !== "POST") {
       return new Response("Method not allowed", {
         status: 405,
         headers: {
           "Access-Control-Allow-Origin": "*",
-          Allow: "POST, OPTIONS",
+          Allow: "POST, DELETE, OPTIONS",
         },
       });
     }
@@ -138,11 +180,38 @@ export class MCPProtocolHandler {
       }
 
       // Parse JSON-RPC request with validation
-      const body = (await request.json()) as MCPRequest | MCPNotification;
+      const body = (await request.json()) as
+        | MCPRequest
+        | MCPNotification
+        | unknown[];
+
+      // JSON-RPC batch
+      if (Array.isArray(body)) {
+        const sessionError = await this.validateSession(request, authContext);
+        if (sessionError) return sessionError;
+
+        return this.handleBatch(body, authContext, request);
+      }
+
+      // Every message except initialize must belong to a live session (if one was sent)
+      if (!(isValidMCPRequest(body) && body.method === "initialize")) {
+        const sessionError = await this.validateSession(request, authContext);
+        if (sessionError) return sessionError;
+      }
 
       // Validate request structure
       if (isValidMCPRequest(body)) {
+        // Stream tool calls with progress when the client accepts SSE
+        if (body.method === "tools/call" && this.acceptsEventStream(request)) {
+          return this.streamRequest(body, authContext, request);
+        }
+
         const response = await this.processRequest(body, authContext, request);
+
+        if (body.method === "initialize" && !response.error) {
+          return this.createInitializeResponse(body, response, authContext);
+        }
+
         return new Response(JSON.stringify(response), {
           headers: { "Content-Type": "application/json" },
         });
@@ -191,13 +260,278 @@ export class MCPProtocolHandler {
     }
   }
 
+  /**
+   * Handle JSON-RPC batch - requests run concurrently, notifications get no reply
+   */
+  private async handleBatch(
+    messages: unknown[],
+    authContext: AuthContext,
+    httpRequest: Request
+  ): Promise<Response> {
+    if (messages.length === 0) {
+      return this.createHttpErrorResponse(
+        400,
+        MCP_ERROR_CODES.INVALID_REQUEST,
+        "Invalid JSON-RPC request: empty batch"
+      );
+    }
+
+    // Each quota-consuming call is counted against the rate limit ahead of the ones after it
+    let toolCallCount = 0;
+    const quotaOffsets = messages.map((message) =>
+      isValidMCPRequest(message) &&
+      (message.method === "tools/call" ||
+        message.method === "prompts/get" ||
+        message.method === "resources/read")
+        ? toolCallCount++
+        : 0
+    );
+
+    const responses = await Promise.all(
+      messages.map(async (message, index): Promise<MCPResponse | null> => {
+        if (isValidMCPRequest(message)) {
+          if (message.method === "initialize") {
+            return createErrorResponse(
+              message.id,
+              MCP_ERROR_CODES.INVALID_REQUEST,
+              "initialize must not be part of a JSON-RPC batch"
+            );
+          }
+
+          return this.processRequest(message, authContext, httpRequest, {
+            quotaOffset: quotaOffsets[index],
+          });
+        }
+
+        if (isValidMCPNotification(message)) {
+          await this.handleNotification(message);
+          return null;
+        }
+
+        return {
+          jsonrpc: "2.0",
+          id: null,
+          error: {
+            code: MCP_ERROR_CODES.INVALID_REQUEST,
+            message: "Invalid JSON-RPC request structure",
+          },
+        };
+      })
+    );
+
+    const replies = responses.filter(
+      (response): response is MCPResponse => response !== null
+    );
+
+    logger.info(
+      `JSON-RPC batch processed (messages: ${messages.length}, replies: ${replies.length}, tool_calls: ${toolCallCount})`
+    );
+
+    // Batch of notifications only - nothing to return
+    if (replies.length === 0) {
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response(JSON.stringify(replies), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * Attach a freshly minted session to a successful initialize response
+   */
+  private async createInitializeResponse(
+    request: MCPRequest,
+    response: MCPResponse,
+    authContext: AuthContext
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    try {
+      const params = request.params as InitializeParams | undefined;
+      const result = response.result as { protocolVersion: string };
+      const session = await this.sessions.create({
+        userId: authContext.userId,
+        protocolVersion: result.protocolVersion,
+        clientInfo: params?.clientInfo,
+      });
+
+      headers[MCP_SESSION_HEADER] = session.id;
+      headers["Access-Control-Expose-Headers"] = MCP_SESSION_HEADER;
+    } catch (error) {
+      // Fall back to a stateless connection rather than failing initialize
+      logger.error(
+        `Session creation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return new Response(JSON.stringify(response), { headers });
+  }
+
+  /**
+   * Validate the Mcp-Session-Id header, returning an error response if invalid
+   */
+  private async validateSession(
+    request: Request,
+    authContext: AuthContext
+  ): Promise<Response | null> {
+    const sessionId = request.headers.get(MCP_SESSION_HEADER);
+
+    // Stateless clients that never received a session remain supported
+    if (!sessionId) return null;
+
+    try {
+      const session = await this.sessions.get(sessionId);
+
+      if (!session || session.userId !== (authContext.userId ?? null)) {
+        return this.createHttpErrorResponse(
+          404,
+          MCP_ERROR_CODES.SESSION_NOT_FOUND,
+          "Session not found or expired. Please send a new initialize request."
+        );
+      }
+
+      const protocolVersion = request.headers.get("mcp-protocol-version");
+      if (protocolVersion && protocolVersion !== session.protocolVersion) {
+        return this.createHttpErrorResponse(
+          400,
+          MCP_ERROR_CODES.INVALID_REQUEST,
+          `Protocol version mismatch: session negotiated ${session.protocolVersion}, request uses ${protocolVersion}`
+        );
+      }
+
+      await this.sessions.touch(sessionId);
+      return null;
+    } catch (error) {
+      // Fail open - session storage problems must not block MCP traffic
+      logger.error(
+        `Session validation failed for ${sessionId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Handle DELETE request terminating a session
+   */
+  private async handleSessionDelete(
+    request: Request,
+    authContext: AuthContext
+  ): Promise<Response> {
+    const sessionId = request.headers.get(MCP_SESSION_HEADER);
+    if (!sessionId) {
+      return this.createHttpErrorResponse(
+        400,
+        MCP_ERROR_CODES.INVALID_REQUEST,
+        `${MCP_SESSION_HEADER} header is required to terminate a session`
+      );
+    }
+
+    const session = await this.sessions.get(sessionId);
+    if (!session || session.userId !== (authContext.userId ?? null)) {
+      return this.createHttpErrorResponse(
+        404,
+        MCP_ERROR_CODES.SESSION_NOT_FOUND,
+        "Session not found or expired"
+      );
+    }
+
+    await this.sessions.terminate(sessionId);
+    logger.info(
+      `MCP session terminated: ${sessionId} (requests: ${session.requestCount})`
+    );
+
+    return new Response(null, {
+      status: 204,
+      headers: { "Access-Control-Allow-Origin": "*" },
+    });
+  }
+
+  /**
+   * Create JSON-RPC error wrapped in an HTTP response
+   */
+  private createHttpErrorResponse(
+    status: number,
+    code: number,
+    message: string
+  ): Response {
+    return new Response(
+      JSON.stringify({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code, message },
+      }),
+      {
+        status,
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+        },
+      }
+    );
+  }
+
+  /**
+   * Answer a request over SSE, emitting progress notifications before the result
+   */
+  private streamRequest(
+    request: MCPRequest,
+    authContext: AuthContext,
+    httpRequest: Request
+  ): Response {
+    const stream = new SSEStream();
+    const progressToken = this.extractProgressToken(request.params);
+
+    const onProgress: ProgressCallback | undefined =
+      progressToken !== undefined
+        ? (update) => {
+            void stream.send({
+              jsonrpc: "2.0",
+              method: "notifications/progress",
+              params: { progressToken, ...update },
+            });
+          }
+        : undefined;
+
+    // Keep processing after the response is returned; the open stream keeps the Worker alive
+    void (async () => {
+      try {
+        const response = await this.processRequest(
+          request,
+          authContext,
+          httpRequest,
+          { onProgress }
+        );
+        await stream.send(response);
+      } catch (error) {
+        logger.error(
+          `Streamed request failed for ${request.method}: ${error instanceof Error ? error.message : String(error)}`
+        );
+        await stream.send(
+          createErrorResponse(
+            request.id,
+            MCP_ERROR_CODES.INTERNAL_ERROR,
+            "Internal server error"
+          )
+        );
+      } finally {
+        await stream.close();
+      }
+    })();
+
+    return stream.toResponse();
+  }
+
   /**
    * Process validated MCP request
    */
   private async processRequest(
     request: MCPRequest,
     authContext: AuthContext,
-    httpRequest: Request
+    httpRequest: Request,
+    options: ToolCallOptions = {}
   ): Promise<MCPResponse> {
     const { id, method, params } = request;
 
@@ -210,7 +544,40 @@ export class MCPProtocolHandler {
           return this.handleToolsList(id);
 
         case "tools/call":
-          return this.handleToolsCall(id, params, authContext, httpRequest);
+          return this.handleToolsCall(
+            id,
+            params,
+            authContext,
+            httpRequest,
+            options
+          );
+
+        case "resources/list":
+          return this.docResources.list(id, params);
+
+        case "resources/templates/list":
+          return this.docResources.listTemplates(id);
+
+        case "resources/read":
+          return this.docResources.read(
+            id,
+            params,
+            authContext,
+            httpRequest,
+            options
+          );
+
+        case "prompts/list":
+          return this.workflowPrompts.list(id);
+
+        case "prompts/get":
+          return this.workflowPrompts.get(
+            id,
+            params,
+            authContext,
+            httpRequest,
+            options
+          );
 
         default:
           return createErrorResponse(
@@ -263,9 +630,11 @@ export class MCPProtocolHandler {
       jsonrpc: "2.0",
       id,
       result: {
-        protocolVersion: MCPProtocolHandler.PROTOCOL_VERSION,
+        protocolVersion: clientVersion || MCPProtocolHandler.PROTOCOL_VERSION,
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
         serverInfo: {
           name: APP_CONSTANTS.SERVER_NAME,
@@ -289,7 +658,7 @@ export class MCPProtocolHandler {
             query: {
               type: "string",
               description:
-                "Search query for Apple's official developer documentation and video content. Focus on technical concepts, APIs, frameworks, features, and version numbers rather than temporal information.",
+                "Search query for Apple's official developer documentation and video content. Focus on technical concepts, APIs, frameworks, features, and version numbers rather than temporal information. Required unless cursor is given.",
               minLength: 1,
               maxLength: 10000,
             },
@@ -300,9 +669,79 @@ export class MCPProtocolHandler {
               maximum: 10,
               default: 4,
             },
+            framework: {
+              type: "string",
+              description:
+                'Restrict results to one framework\'s documentation, e.g. "swiftui" or "/documentation/swiftui"',
+            },
+            platform: {
+              type: "string",
+              enum: SEARCH_PLATFORMS,
+              description:
+                "Restrict results to documentation pages available on this platform (per their availability list, e.g. iOS 17.0+)",
+            },
+            content_type: {
+              type: "string",
+              enum: SEARCH_CONTENT_TYPES,
+              description:
+                "Restrict results to API documentation, Apple Developer videos (WWDC sessions and tutorials), or the Human Interface Guidelines",
+            },
+            url_prefix: {
+              type: "string",
+              description:
+                "Restrict results to URLs starting with this prefix, e.g. https://developer.apple.com/documentation/swiftdata/",
+            },
+            diversity: {
+              type: "number",
+              description:
+                "How strongly to favor distinct pages over near-duplicates such as platform variants of the same API (0 = relevance only, 1 = maximum diversity)",
+              minimum: 0,
+              maximum: 1,
+              default: SEARCH_CONFIG.DIVERSITY.DEFAULT,
+            },
+            context_chunks: {
+              type: "integer",
+              description:
+                "Number of adjacent chunks (before and after) to merge into each partial-document result, within a character budget. A middle ground between a snippet and a full fetch",
+              minimum: 0,
+              maximum: SEARCH_CONFIG.CONTEXT_EXPANSION.MAX_CHUNKS,
+              default: 0,
+            },
+            show_scores: {
+              type: "boolean",
+              description:
+                "Show relevance score, vector distance, keyword rank and retrieval sources for each result",
+              default: false,
+            },
+            min_score: {
+              type: "number",
+              description:
+                "Drop results whose reranker relevance score is below this value (0-1). Not applied when reranking is unavailable",
+              minimum: 0,
+              maximum: 1,
+            },
+            cursor: {
+              type: "string",
+              description:
+                "nextCursor from a previous search response, to fetch the next page of results not yet returned. When set, the other search arguments are taken from the cursor",
+            },
+            debug: {
+              type: "boolean",
+              description:
+                "Return a trace of every search pipeline stage (admins only; implies bypass_cache)",
+              default: false,
+            },
+            bypass_cache: {
+              type: "boolean",
+              description:
+                "Skip the search result cache and run the full search pipeline (debugging)",
+              default: false,
+            },
           },
-          required: ["query"],
+          // A cursor carries the query of the search it continues
+          anyOf: [{ required: ["query"] }, { required: ["cursor"] }],
         },
+        outputSchema: SEARCH_OUTPUT_SCHEMA,
       },
       {
         name: APP_CONSTANTS.TOOLS.FETCH.NAME,
@@ -319,6 +758,7 @@ export class MCPProtocolHandler {
           },
           required: ["url"],
         },
+        outputSchema: FETCH_OUTPUT_SCHEMA,
       },
     ];
 
@@ -338,7 +778,8 @@ export class MCPProtocolHandler {
     id: string | number,
     params: Record<string, unknown> | undefined,
     authContext: AuthContext,
-    httpRequest: Request
+    httpRequest: Request,
+    options: ToolCallOptions
   ): Promise<MCPResponse> {
     // Validate tool call parameters
     const validation = validateToolCallParams(params);
@@ -359,7 +800,8 @@ export class MCPProtocolHandler {
           id,
           toolCall.arguments as unknown as SearchToolArgs,
           authContext,
-          httpRequest
+          httpRequest,
+          options
         );
 
       case APP_CONSTANTS.TOOLS.FETCH.NAME:
@@ -367,7 +809,8 @@ export class MCPProtocolHandler {
           id,
           toolCall.arguments as unknown as FetchToolArgs,
           authContext,
-          httpRequest
+          httpRequest,
+          options
         );
 
       default:
@@ -389,6 +832,28 @@ export class MCPProtocolHandler {
     // Handle notifications as needed
   }
 
+  /**
+   * Check if client accepts Server-Sent Events responses
+   */
+  private acceptsEventStream(request: Request): boolean {
+    return (
+      request.headers.get("accept")?.includes("text/event-stream") ?? false
+    );
+  }
+
+  /**
+   * Extract progress token from request metadata
+   */
+  private extractProgressToken(
+    params: Record<string, unknown> | undefined
+  ): string | number | undefined {
+    const meta = params?._meta as Record<string, unknown> | undefined;
+    const token = meta?.progressToken;
+    return typeof token === "string" || typeof token === "number"
+      ? token
+      : undefined;
+  }
+
   /**
    * Check if protocol version is supported
    */
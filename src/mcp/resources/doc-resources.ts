@@ -0,0 +1,288 @@
+/**
+ * Documentation Resources Handler
+ * Exposes Apple documentation pages through the MCP resources API
+ */
+
+import type {
+  AuthContext,
+  MCPResponse,
+  Services,
+  ToolCallOptions,
+} from "../../types/index.js";
+import { logger } from "../../utils/logger.js";
+import {
+  convertYouTubeShortUrl,
+  validateAndNormalizeUrl,
+} from "../../utils/url-processor.js";
+import { createErrorResponse } from "../formatters/response-formatter.js";
+import {
+  buildRateLimitMessage,
+  extractClientIP,
+} from "../middleware/rate-limit-helpers.js";
+import { MCP_ERROR_CODES } from "../protocol-handler.js";
+
+const APPLE_DOC_SCHEME = "apple-doc://";
+const APPLE_DEVELOPER_ORIGIN = "https://developer.apple.com/";
+const RESOURCE_PAGE_SIZE = 100;
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${APPLE_DOC_SCHEME}{path}`,
+    name: "apple-documentation",
+    title: "Apple Developer Documentation",
+    description:
+      "Apple developer documentation page by path, e.g. apple-doc://documentation/swiftui/view",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "https://www.youtube.com/watch?v={videoId}",
+    name: "apple-developer-video",
+    title: "Apple Developer Video",
+    description:
+      "Transcript of an Apple Developer YouTube video such as a WWDC session",
+    mimeType: "text/plain",
+  },
+] as const;
+
+/**
+ * Convert a page URL to its resource URI
+ */
+export function pageUrlToResourceUri(url: string): string {
+  return url.startsWith(APPLE_DEVELOPER_ORIGIN)
+    ? `${APPLE_DOC_SCHEME}${url.slice(APPLE_DEVELOPER_ORIGIN.length)}`
+    : url;
+}
+
+/**
+ * Convert a resource URI back to a page URL
+ */
+export function resourceUriToPageUrl(uri: string): string {
+  return uri.startsWith(APPLE_DOC_SCHEME)
+    ? `${APPLE_DEVELOPER_ORIGIN}${uri.slice(APPLE_DOC_SCHEME.length).replace(/^\/+/, "")}`
+    : convertYouTubeShortUrl(uri);
+}
+
+export class DocResources {
+  constructor(private services: Services) {}
+
+  /**
+   * Handle resources/list with cursor pagination over pages
+   */
+  async list(
+    id: string | number,
+    params: Record<string, unknown> | undefined
+  ): Promise<MCPResponse> {
+    const cursor = params?.cursor;
+    let afterUrl: string | undefined;
+
+    if (cursor !== undefined) {
+      const decoded =
+        typeof cursor === "string" ? this.decodeCursor(cursor) : null;
+      if (!decoded) {
+        return createErrorResponse(
+          id,
+          MCP_ERROR_CODES.INVALID_PARAMS,
+          "Invalid cursor"
+        );
+      }
+      afterUrl = decoded;
+    }
+
+    // Fetch one extra row to detect whether another page exists
+    const pages = await this.services.database.listPages({
+      afterUrl,
+      limit: RESOURCE_PAGE_SIZE + 1,
+    });
+    const hasMore = pages.length > RESOURCE_PAGE_SIZE;
+    const pageSlice = pages.slice(0, RESOURCE_PAGE_SIZE);
+
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        resources: pageSlice.map((page) => ({
+          uri: pageUrlToResourceUri(page.url),
+          name: page.title || page.url,
+          title: page.title || undefined,
+          mimeType: "text/plain",
+          size: page.contentLength,
+        })),
+        nextCursor: hasMore
+          ? this.encodeCursor(pageSlice[pageSlice.length - 1].url)
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * Handle resources/templates/list
+   */
+  async listTemplates(id: string | number): Promise<MCPResponse> {
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        resourceTemplates: RESOURCE_TEMPLATES,
+      },
+    };
+  }
+
+  /**
+   * Handle resources/read backed by the pages table
+   */
+  async read(
+    id: string | number,
+    params: Record<string, unknown> | undefined,
+    authContext: AuthContext,
+    httpRequest: Request,
+    options: ToolCallOptions = {}
+  ): Promise<MCPResponse> {
+    const startTime = Date.now();
+    const uri = params?.uri;
+
+    if (!uri || typeof uri !== "string" || uri.trim().length === 0) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        "Resource uri is required and must be a string"
+      );
+    }
+
+    const urlResult = validateAndNormalizeUrl(resourceUriToPageUrl(uri));
+    if (!urlResult.isValid) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        `Invalid resource uri: ${urlResult.error}`
+      );
+    }
+
+    const ipAddress = extractClientIP(httpRequest);
+    const processedUrl = urlResult.normalizedUrl;
+
+    // Resource reads share the fetch quota
+    const rateLimitResult = await this.services.rateLimit.checkLimits(
+      ipAddress,
+      authContext,
+      options.quotaOffset
+    );
+
+    if (!rateLimitResult.allowed) {
+      await this.logRead(
+        authContext,
+        uri,
+        processedUrl,
+        "",
+        0,
+        ipAddress,
+        429,
+        "RATE_LIMIT_EXCEEDED"
+      );
+
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.RATE_LIMIT_EXCEEDED,
+        buildRateLimitMessage(rateLimitResult, authContext)
+      );
+    }
+
+    const page = await this.services.database.getPageByUrl(processedUrl);
+    const responseTime = Date.now() - startTime;
+
+    if (!page) {
+      await this.logRead(
+        authContext,
+        uri,
+        processedUrl,
+        "",
+        responseTime,
+        ipAddress,
+        404,
+        "NOT_FOUND"
+      );
+
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.RESOURCE_NOT_FOUND,
+        `Resource not found: ${uri}`
+      );
+    }
+
+    await this.logRead(
+      authContext,
+      uri,
+      processedUrl,
+      page.id,
+      responseTime,
+      ipAddress
+    );
+
+    return {
+      jsonrpc: "2.0",
+      id,
+      result: {
+        contents: [
+          {
+            uri,
+            mimeType: "text/plain",
+            text: page.title
+              ? `${page.title}\n\n${page.content}`
+              : page.content,
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Encode opaque pagination cursor
+   */
+  private encodeCursor(lastUrl: string): string {
+    return btoa(encodeURIComponent(lastUrl));
+  }
+
+  /**
+   * Decode pagination cursor, returning null when malformed
+   */
+  private decodeCursor(cursor: string): string | null {
+    try {
+      return decodeURIComponent(atob(cursor));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Log resource read to fetch logs
+   */
+  private async logRead(
+    authContext: AuthContext,
+    requestedUri: string,
+    actualUrl: string,
+    pageId: string,
+    responseTime: number,
+    ipAddress: string,
+    statusCode: number = 200,
+    errorCode?: string
+  ): Promise<void> {
+    if (!this.services.logger) return;
+
+    try {
+      await this.services.logger.logFetch({
+        userId: authContext.userId || `anon_${ipAddress}`,
+        requestedUrl: requestedUri,
+        actualUrl,
+        pageId,
+        responseTimeMs: responseTime,
+        ipAddress,
+        statusCode,
+        errorCode,
+        mcpToken: authContext.token || null,
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to log resource read: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+}
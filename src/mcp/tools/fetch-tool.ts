@@ -6,8 +6,8 @@
 import type {
   AuthContext,
   MCPResponse,
-  RateLimitResult,
   Services,
+  ToolCallOptions,
 } from "../../types/index.js";
 import { logger } from "../../utils/logger.js";
 import {
@@ -15,11 +15,16 @@ import {
   validateAndNormalizeUrl,
 } from "../../utils/url-processor.js";
 import {
+  buildFetchStructuredContent,
   createErrorResponse,
   createSuccessResponse,
   formatFetchResponse,
 } from "../formatters/response-formatter.js";
-import { APP_CONSTANTS, MCP_ERROR_CODES } from "../protocol-handler.js";
+import {
+  buildRateLimitMessage,
+  extractClientIP,
+} from "../middleware/rate-limit-helpers.js";
+import { MCP_ERROR_CODES } from "../protocol-handler.js";
 
 export interface FetchToolArgs {
   url: string;
@@ -35,7 +40,8 @@ export class FetchTool {
     id: string | number,
     args: FetchToolArgs,
     authContext: AuthContext,
-    httpRequest: Request
+    httpRequest: Request,
+    options: ToolCallOptions = {}
   ): Promise<MCPResponse> {
     const startTime = Date.now();
     const { url } = args;
@@ -49,12 +55,13 @@ export class FetchTool {
       );
     }
 
-    const ipAddress = this.extractClientIP(httpRequest);
+    const ipAddress = extractClientIP(httpRequest);
 
     // Rate limiting check
     const rateLimitResult = await this.services.rateLimit.checkLimits(
       ipAddress,
-      authContext
+      authContext,
+      options.quotaOffset
     );
 
     if (!rateLimitResult.allowed) {
@@ -70,7 +77,7 @@ export class FetchTool {
         "RATE_LIMIT_EXCEEDED"
       );
 
-      const rateLimitMessage = this.buildRateLimitMessage(
+      const rateLimitMessage = buildRateLimitMessage(
         rateLimitResult,
         authContext
       );
@@ -142,7 +149,11 @@ export class FetchTool {
         authContext.isAuthenticated
       );
 
-      return createSuccessResponse(id, formattedContent);
+      return createSuccessResponse(
+        id,
+        formattedContent,
+        buildFetchStructuredContent(page)
+      );
     } catch (error) {
       const responseTime = Date.now() - startTime;
 
@@ -203,37 +214,4 @@ export class FetchTool {
       );
     }
   }
-
-  /**
-   * Build rate limit message
-   */
-  private buildRateLimitMessage(
-    rateLimitResult: RateLimitResult,
-    authContext: AuthContext
-  ): string {
-    if (rateLimitResult.limitType === "minute") {
-      const resetTime = new Date(rateLimitResult.minuteResetAt!);
-      const waitSeconds = Math.ceil((resetTime.getTime() - Date.now()) / 1000);
-
-      return authContext.isAuthenticated
-        ? `Rate limit reached for ${rateLimitResult.planType} plan (${rateLimitResult.minuteLimit} queries per minute). Please wait ${waitSeconds} seconds before trying again.`
-        : `Rate limit reached for anonymous access (${rateLimitResult.minuteLimit} query per minute). Please wait ${waitSeconds} seconds before trying again. Subscribe at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`;
-    } else {
-      return authContext.isAuthenticated
-        ? `Weekly limit reached for ${rateLimitResult.planType} plan (${rateLimitResult.limit} queries per week). Upgrade to Pro at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`
-        : `Weekly limit reached for anonymous access (${rateLimitResult.limit} queries per week). Subscribe at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`;
-    }
-  }
-
-  /**
-   * Extract client IP address from Worker request
-   */
-  private extractClientIP(request: Request): string {
-    return (
-      request.headers.get("cf-connecting-ip") ||
-      request.headers.get("x-forwarded-for") ||
-      request.headers.get("x-real-ip") ||
-      "unknown"
-    );
-  }
 }
@@ -0,0 +1,125 @@
+/**
+ * Tool Output Schemas
+ * JSON Schemas describing structuredContent returned by each tool
+ */
+
+import type { ToolDefinition } from "../../types/index.js";
+
+type OutputSchema = NonNullable<ToolDefinition["outputSchema"]>;
+
+export const SEARCH_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    query: {
+      type: "string",
+      description: "Query used for the search after cleaning",
+    },
+    count: {
+      type: "number",
+      description: "Number of results returned",
+    },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          title: { type: ["string", "null"] },
+          content: { type: "string" },
+          contentLength: { type: "number" },
+          chunk_index: {
+            type: "number",
+            description: "Zero-based index of the first chunk in the result",
+          },
+          total_chunks: {
+            type: "number",
+            description: "Total chunks of the source document",
+          },
+          mergedChunkIndices: {
+            type: "array",
+            items: { type: "number" },
+            description: "Zero-based chunk indices merged into this result",
+          },
+          relevanceScore: {
+            type: "number",
+            description:
+              "Reranker relevance score (absent when reranking failed)",
+          },
+          breadcrumb: {
+            type: "string",
+            description:
+              'Parent path of the page, e.g. "swiftui › view" (absent for videos and top-level pages)',
+          },
+          vectorDistance: {
+            type: "number",
+            description:
+              "Cosine distance to the query embedding (absent for keyword-only hits)",
+          },
+          keywordScore: {
+            type: "number",
+            description: "Full-text rank score (absent for vector-only hits)",
+          },
+          keywordRank: {
+            type: "number",
+            description: "1-based rank among keyword candidates",
+          },
+          sources: {
+            type: "array",
+            items: { type: "string", enum: ["semantic", "keyword"] },
+            description: "Retrievers that returned this result",
+          },
+        },
+        required: [
+          "url",
+          "title",
+          "content",
+          "contentLength",
+          "chunk_index",
+          "total_chunks",
+        ],
+      },
+    },
+    additionalUrls: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          url: { type: "string" },
+          title: { type: ["string", "null"] },
+          characterCount: { type: "number" },
+        },
+        required: ["url", "title", "characterCount"],
+      },
+    },
+    belowMinScore: {
+      type: "number",
+      description: "Top results dropped for scoring below min_score",
+    },
+    offset: {
+      type: "number",
+      description: "Position of the first result in the full ranked list",
+    },
+    nextCursor: {
+      type: "string",
+      description:
+        "Pass as cursor to fetch the next page (absent on the last reachable page)",
+    },
+    trace: {
+      type: "object",
+      description:
+        "Pipeline trace: cleaned query, query plan, candidate lists, merge groups, rerank scores, stage timings and fallbacks (debug mode only)",
+    },
+  },
+  required: ["query", "count", "results", "additionalUrls"],
+};
+
+export const FETCH_OUTPUT_SCHEMA: OutputSchema = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    title: { type: ["string", "null"] },
+    content: { type: "string" },
+    characterCount: { type: "number" },
+  },
+  required: ["url", "title", "content", "characterCount"],
+};
@@ -3,24 +3,69 @@
  * Handles MCP search tool requests with RAG processing
  */
 
+import {
+  getLatencyBudgetMs,
+  SEARCH_CONFIG,
+} from "../../services/search-config.js";
+import type { SearchCursorState } from "../../services/search-cursor.js";
+import { SearchTracer } from "../../services/search-trace.js";
+import {
+  sumTokenUsage,
+  type TokenTotals,
+} from "../../services/usage-tracker.js";
 import type {
   AuthContext,
   MCPResponse,
-  RateLimitResult,
+  RAGQuery,
   Services,
+  ToolCallOptions,
 } from "../../types/index.js";
 import { logger } from "../../utils/logger.js";
 import { cleanQuerySafely } from "../../utils/query-cleaner.js";
 import {
+  describeFilters,
+  validateSearchFilters,
+} from "../../utils/search-filters.js";
+import {
+  buildSearchStructuredContent,
   createErrorResponse,
   createSuccessResponse,
   formatRAGResponse,
+  formatSearchTrace,
 } from "../formatters/response-formatter.js";
+import {
+  buildRateLimitMessage,
+  extractClientIP,
+} from "../middleware/rate-limit-helpers.js";
 import { APP_CONSTANTS, MCP_ERROR_CODES } from "../protocol-handler.js";
 
 export interface SearchToolArgs {
   query: string;
   result_count?: number;
+  framework?: string;
+  platform?: string;
+  content_type?: string;
+  url_prefix?: string;
+  bypass_cache?: boolean;
+  diversity?: number;
+  context_chunks?: number;
+  show_scores?: boolean;
+  min_score?: number;
+  debug?: boolean;
+  // Opaque cursor from a previous page; replaces the other search arguments
+  cursor?: string;
+}
+
+/**
+ * Whether a tool argument is a finite number in [0, 1]
+ */
+function isUnitInterval(value: unknown): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= 0 &&
+    value <= 1
+  );
 }
 
 export class SearchTool {
@@ -33,9 +78,44 @@ export class SearchTool {
     id: string | number,
     args: SearchToolArgs,
     authContext: AuthContext,
-    httpRequest: Request
+    httpRequest: Request,
+    options: ToolCallOptions = {}
   ): Promise<MCPResponse> {
     const startTime = Date.now();
+
+    // Resume a paginated search from its signed cursor
+    let offset = 0;
+    let seenUrls: string[] = [];
+    if (args.cursor !== undefined) {
+      const state =
+        typeof args.cursor === "string" && this.services.cursors
+          ? await this.services.cursors.decode(args.cursor)
+          : null;
+      if (!state) {
+        return createErrorResponse(
+          id,
+          MCP_ERROR_CODES.INVALID_PARAMS,
+          APP_CONSTANTS.INVALID_CURSOR_ERROR
+        );
+      }
+
+      offset = state.offset;
+      seenUrls = state.seenUrls;
+      args = {
+        ...args,
+        query: state.query,
+        result_count: state.resultCount,
+        framework: state.filters?.framework,
+        platform: state.filters?.platform,
+        content_type: state.filters?.contentType,
+        url_prefix: state.filters?.urlPrefix,
+        diversity: state.diversity,
+        context_chunks: state.contextChunks,
+        min_score: state.minScore,
+        show_scores: state.showScores,
+      };
+    }
+
     let { query, result_count = 4 } = args;
 
     // Validate query parameter
@@ -47,9 +127,66 @@ export class SearchTool {
       );
     }
 
+    // Validate metadata filters
+    const filterValidation = validateSearchFilters(args);
+    if (!filterValidation.isValid) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        filterValidation.error!
+      );
+    }
+    const filters = filterValidation.filters;
+
+    // Validate diversity parameter
+    const { diversity } = args;
+    if (diversity !== undefined && !isUnitInterval(diversity)) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        APP_CONSTANTS.INVALID_DIVERSITY_ERROR
+      );
+    }
+
+    // Validate min_score parameter
+    const { min_score: minScore } = args;
+    if (minScore !== undefined && !isUnitInterval(minScore)) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        APP_CONSTANTS.INVALID_MIN_SCORE_ERROR
+      );
+    }
+
+    // Validate context_chunks parameter
+    const { context_chunks: contextChunks } = args;
+    if (
+      contextChunks !== undefined &&
+      (!Number.isInteger(contextChunks) ||
+        contextChunks < 0 ||
+        contextChunks > SEARCH_CONFIG.CONTEXT_EXPANSION.MAX_CHUNKS)
+    ) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        APP_CONSTANTS.INVALID_CONTEXT_CHUNKS_ERROR
+      );
+    }
+
+    // Debug traces expose internals, so they are admin-only
+    if (args.debug === true && !authContext.isAdmin) {
+      return createErrorResponse(
+        id,
+        MCP_ERROR_CODES.INVALID_PARAMS,
+        APP_CONSTANTS.DEBUG_NOT_ALLOWED_ERROR
+      );
+    }
+    const tracer = args.debug === true ? new SearchTracer() : undefined;
+
     // Clean the query to remove temporal information
     const originalQuery = query;
     query = cleanQuerySafely(query);
+    tracer?.recordQuery(originalQuery, query);
 
     // Log query cleaning if significant changes were made
     if (query !== originalQuery) {
@@ -74,29 +211,13 @@ export class SearchTool {
     // Update result_count for processing
     result_count = adjustedResultCount;
 
-    // Check if request wants SSE
-    const isSSE = httpRequest.headers
-      .get("accept")
-      ?.includes("text/event-stream");
-
-    if (isSSE) {
-      // Handle SSE request
-      return await this.handleSSE(
-        id,
-        query,
-        result_count,
-        authContext,
-        httpRequest,
-        wasAdjusted
-      );
-    }
-
     try {
       // Rate limiting check
-      const clientIP = this.extractClientIP(httpRequest);
+      const clientIP = extractClientIP(httpRequest);
       const rateLimitResult = await this.services.rateLimit.checkLimits(
         clientIP,
-        authContext
+        authContext,
+        options.quotaOffset
       );
 
       if (!rateLimitResult.allowed) {
@@ -116,7 +237,7 @@ export class SearchTool {
           "RATE_LIMIT_EXCEEDED"
         );
 
-        const rateLimitMessage = this.buildRateLimitMessage(
+        const rateLimitMessage = buildRateLimitMessage(
           rateLimitResult,
           authContext
         );
@@ -128,23 +249,61 @@ export class SearchTool {
       }
 
       const ragResult = await this.processQuery(
-        query,
-        result_count,
+        {
+          query,
+          originalQuery,
+          result_count,
+          offset,
+          filters,
+          onProgress: options.onProgress,
+          // A cached result has no pipeline to trace
+          bypassCache: args.bypass_cache === true || tracer !== undefined,
+          diversity,
+          contextChunks,
+          minScore,
+          excludeUrls: seenUrls,
+          tracer,
+          deadline: startTime + getLatencyBudgetMs(rateLimitResult.planType),
+        },
         authContext,
-        this.extractClientIP(httpRequest),
+        extractClientIP(httpRequest),
         startTime
       );
 
-      const formattedResponse = formatRAGResponse(
+      ragResult.nextCursor = await this.buildNextCursor(ragResult.hasMore, {
+        // Cleaned again on resume, so later pages are planned like this one
+        query: originalQuery,
+        filters,
+        resultCount: result_count,
+        offset,
+        diversity,
+        contextChunks,
+        minScore,
+        showScores: args.show_scores,
+        seenUrls: [
+          ...seenUrls,
+          ...ragResult.results.map((result) => result.url),
+        ],
+      });
+
+      let formattedResponse = formatRAGResponse(
         ragResult,
         authContext.isAuthenticated,
-        wasAdjusted
+        wasAdjusted,
+        args.show_scores === true
       );
+      if (ragResult.trace) {
+        formattedResponse += formatSearchTrace(ragResult.trace);
+      }
 
-      return createSuccessResponse(id, formattedResponse);
+      return createSuccessResponse(
+        id,
+        formattedResponse,
+        buildSearchStructuredContent(ragResult)
+      );
     } catch (error) {
       logger.error(
-        `RAG query failed for query "${query}" (result_count: ${result_count}): ${error instanceof Error ? error.message : String(error)}`
+        `RAG query failed for query "${query}" (result_count: ${result_count}, filters: ${describeFilters(filters)}): ${error instanceof Error ? error.message : String(error)}`
       );
 
       return createErrorResponse(
@@ -156,129 +315,63 @@ export class SearchTool {
   }
 
   /**
-   * Handle search with Server-Sent Events (SSE)
+   * Signed cursor for the page after this one, while results remain within reach
    */
-  private async handleSSE(
-    id: string | number,
-    query: string,
-    resultCount: number,
-    authContext: AuthContext,
-    httpRequest: Request,
-    wasAdjusted: boolean
-  ): Promise<MCPResponse> {
-    const startTime = Date.now();
-    const ipAddress = this.extractClientIP(httpRequest);
-
-    // Clean the query to remove temporal information for SSE as well
-    const originalQuery = query;
-    query = cleanQuerySafely(query);
-
-    // Log query cleaning if significant changes were made
-    if (query !== originalQuery) {
-      logger.info(
-        `Query cleaned for SSE search: "${originalQuery}" -> "${query}"`
-      );
+  private async buildNextCursor(
+    hasMore: boolean | undefined,
+    state: Omit<SearchCursorState, "expiresAt">
+  ): Promise<string | undefined> {
+    const { MAX_DEPTH } = SEARCH_CONFIG.PAGINATION;
+    const nextOffset = state.offset + state.resultCount;
+
+    if (!hasMore || !this.services.cursors || nextOffset >= MAX_DEPTH) {
+      return undefined;
     }
 
-    try {
-      // Rate limiting check for SSE
-      const rateLimitResult = await this.services.rateLimit.checkLimits(
-        ipAddress,
-        authContext
-      );
-
-      if (!rateLimitResult.allowed) {
-        // Log rate-limited SSE request to database
-        await this.logSearch(
-          authContext,
-          query,
-          { count: 0 },
-          0,
-          ipAddress,
-          429,
-          "RATE_LIMIT_EXCEEDED"
-        );
-
-        const rateLimitMessage = this.buildRateLimitMessage(
-          rateLimitResult,
-          authContext
-        );
-        return createErrorResponse(
-          id,
-          MCP_ERROR_CODES.RATE_LIMIT_EXCEEDED,
-          rateLimitMessage
-        );
-      }
-
-      // Send progress notification (simulated for Worker environment)
-      logger.info(
-        `SSE search progress for query "${query}" (progress: 0.1, stage: starting_rag_query, authenticated: ${authContext.isAuthenticated})`
-      );
-
-      // Execute RAG query with progress tracking
-      const ragResult = await this.services.rag.query({
-        query,
-        result_count: resultCount,
-      });
-
-      const responseTime = Date.now() - startTime;
-
-      // Log search
-      await this.logSearch(
-        authContext,
-        query,
-        ragResult,
-        responseTime,
-        ipAddress
-      );
-
-      // Format and return response
-      const formattedResponse = formatRAGResponse(
-        ragResult,
-        authContext.isAuthenticated,
-        wasAdjusted
-      );
-
-      return createSuccessResponse(id, formattedResponse);
-    } catch (error) {
-      logger.error(
-        `SSE search failed for query "${query}" (length: ${query.length}, result_count: ${resultCount}, authenticated: ${authContext.isAuthenticated}): ${error instanceof Error ? error.message : String(error)}`
-      );
-
-      return createErrorResponse(
-        id,
-        MCP_ERROR_CODES.INTERNAL_ERROR,
-        APP_CONSTANTS.SEARCH_FAILED_ERROR
-      );
-    }
+    return this.services.cursors.encode({
+      ...state,
+      offset: nextOffset,
+      resultCount: Math.min(state.resultCount, MAX_DEPTH - nextOffset),
+    });
   }
 
   /**
    * Process RAG query - unified business logic
    */
   private async processQuery(
-    query: string,
-    resultCount: number,
+    ragQuery: RAGQuery,
     authContext: AuthContext,
     ipAddress: string,
     startTime: number
   ) {
     // Execute RAG query
-    const ragResult = await this.services.rag.query({
-      query,
-      result_count: resultCount,
-    });
+    const ragResult = await this.services.rag.query(ragQuery);
 
     const totalResponseTime = Date.now() - startTime;
+    const usage = ragResult.usage ?? [];
+    const tokens = sumTokenUsage(usage);
+    const userId = authContext.userId || `anon_${ipAddress}`;
 
-    // Log search to database
-    await this.logSearch(
-      authContext,
-      query,
-      ragResult,
-      totalResponseTime,
-      ipAddress
-    );
+    if (usage.length > 0) {
+      logger.info(
+        `Search token usage (user: ${userId}, calls: ${usage.length}, input_tokens: ${tokens.inputTokens}, output_tokens: ${tokens.outputTokens})`
+      );
+    }
+
+    // Log search and token usage to database
+    await Promise.all([
+      this.logSearch(
+        authContext,
+        ragQuery.query,
+        ragResult,
+        totalResponseTime,
+        ipAddress,
+        200,
+        undefined,
+        tokens
+      ),
+      this.services.usage.recordDaily(userId, usage),
+    ]);
 
     return ragResult;
   }
@@ -293,7 +386,8 @@ export class SearchTool {
     responseTime: number,
     ipAddress: string,
     statusCode: number = 200,
-    errorCode?: string
+    errorCode?: string,
+    tokens?: TokenTotals
   ): Promise<void> {
     if (!this.services.logger) return;
 
@@ -307,6 +401,8 @@ export class SearchTool {
         statusCode,
         errorCode,
         mcpToken: authContext.token || null,
+        inputTokens: tokens?.inputTokens,
+        outputTokens: tokens?.outputTokens,
       });
     } catch (error) {
       logger.error(
@@ -314,37 +410,4 @@ export class SearchTool {
       );
     }
   }
-
-  /**
-   * Build rate limit message
-   */
-  private buildRateLimitMessage(
-    rateLimitResult: RateLimitResult,
-    authContext: AuthContext
-  ): string {
-    if (rateLimitResult.limitType === "minute") {
-      const resetTime = new Date(rateLimitResult.minuteResetAt!);
-      const waitSeconds = Math.ceil((resetTime.getTime() - Date.now()) / 1000);
-
-      return authContext.isAuthenticated
-        ? `Rate limit reached for ${rateLimitResult.planType} plan (${rateLimitResult.minuteLimit} queries per minute). Please wait ${waitSeconds} seconds before trying again.`
-        : `Rate limit reached for anonymous access (${rateLimitResult.minuteLimit} query per minute). Please wait ${waitSeconds} seconds before trying again. Subscribe at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`;
-    } else {
-      return authContext.isAuthenticated
-        ? `Weekly limit reached for ${rateLimitResult.planType} plan (${rateLimitResult.limit} queries per week). Upgrade to Pro at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`
-        : `Weekly limit reached for anonymous access (${rateLimitResult.limit} queries per week). Subscribe at ${APP_CONSTANTS.SUBSCRIPTION_URL} for higher limits.`;
-    }
-  }
-
-  /**
-   * Extract client IP address from Worker request
-   */
-  private extractClientIP(request: Request): string {
-    return (
-      request.headers.get("cf-connecting-ip") ||
-      request.headers.get("x-forwarded-for") ||
-      request.headers.get("x-real-ip") ||
-      "unknown"
-    );
-  }
 }
@@ -0,0 +1,73 @@
+/**
+ * Server-Sent Events Stream
+ * Streamable HTTP transport writer for JSON-RPC messages
+ */
+
+import type { MCPNotification, MCPResponse } from "../../types/index.js";
+import { logger } from "../../utils/logger.js";
+
+export class SSEStream {
+  readonly readable: ReadableStream<Uint8Array>;
+  private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  private readonly encoder = new TextEncoder();
+  private closed = false;
+
+  constructor() {
+    const { readable, writable } = new TransformStream<
+      Uint8Array,
+      Uint8Array
+    >();
+    this.readable = readable;
+    this.writer = writable.getWriter();
+  }
+
+  /**
+   * Send a JSON-RPC message as a single SSE event
+   */
+  async send(message: MCPResponse | MCPNotification): Promise<void> {
+    if (this.closed) return;
+
+    try {
+      await this.writer.write(
+        this.encoder.encode(
+          `event: message\ndata: ${JSON.stringify(message)}\n\n`
+        )
+      );
+    } catch (error) {
+      // Client disconnected - stop writing further events
+      this.closed = true;
+      logger.warn(
+        `SSE write failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Close the stream once the final response has been sent
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    try {
+      await this.writer.close();
+    } catch {
+      // Stream already closed by client
+    }
+  }
+
+  /**
+   * Build the HTTP response carrying this stream
+   */
+  toResponse(headers: Record<string, string> = {}): Response {
+    return new Response(this.readable, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Access-Control-Allow-Origin": "*",
+        ...headers,
+      },
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from "vitest";
+import { CIRCUIT_BREAKER_CONFIG, CircuitBreaker } from "./circuit-breaker.js";
+import { WorkersAIEmbeddingProvider } from "./providers/workers-ai.js";
+
+/**
+ * In-memory stand-in for the circuit_breakers table: no stored rows, and a
+ * failure counter behind the INSERT ... RETURNING upsert
+ */
+function createFakeD1(): D1Database {
+  let failureCount = 0;
+
+  return {
+    prepare: (sql: string) => ({
+      bind: () => ({
+        first: async () =>
+          sql.includes("RETURNING failure_count")
+            ? { failure_count: ++failureCount }
+            : null,
+        run: async () => ({ meta: { changes: 1 } }),
+      }),
+    }),
+  } as unknown as D1Database;
+}
+
+/**
+ * Embed through the breaker until the threshold, then once more
+ */
+async function embedPastThreshold(model: string, bindingError: Error) {
+  const ai = { run: vi.fn().mockRejectedValue(bindingError) };
+  const provider = new WorkersAIEmbeddingProvider(ai as unknown as Ai, model);
+  const breaker = new CircuitBreaker(createFakeD1());
+  const embed = () =>
+    breaker.execute(`embedding:${provider.name}`, () => provider.embed("text"));
+
+  for (let i = 0; i < CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD; i++) {
+    await expect(embed()).rejects.toThrow(bindingError.message);
+  }
+
+  return { ai, embed };
+}
+
+describe("CircuitBreaker with the Workers AI binding", () => {
+  it("opens after repeated rejected binding calls", async () => {
+    const { ai, embed } = await embedPastThreshold(
+      "@cf/test/capacity",
+      new Error("3040: Capacity temporarily exceeded, please try again.")
+    );
+
+    await expect(embed()).rejects.toThrow("Circuit open");
+    expect(ai.run).toHaveBeenCalledTimes(
+      CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD
+    );
+  });
+
+  it("stays closed on client errors", async () => {
+    const { ai, embed } = await embedPastThreshold(
+      "@cf/test/bad-input",
+      new Error("Workers AI API error 400: invalid input")
+    );
+
+    await expect(embed()).rejects.toThrow("invalid input");
+    expect(ai.run).toHaveBeenCalledTimes(
+      CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD + 1
+    );
+  });
+});
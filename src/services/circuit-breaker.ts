@@ -0,0 +1,286 @@
+/**
+ * Circuit Breaker Service
+ * Per-endpoint closed/open/half-open breaker persisted in D1 across requests
+ *
+ * - closed: calls pass through, consecutive failures are counted
+ * - open: calls fail fast until the cool-down elapses
+ * - half-open: a single probe call decides between closed and open
+ *
+ * Each isolate trusts its last read of a circuit for STATE_TTL_MS, so healthy
+ * calls do not pay a D1 round trip. Provider-side failures count, including
+ * errors from the Workers AI binding; client errors and cancellations do not.
+ */
+
+import { logger } from "../utils/logger.js";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitStatus {
+  name: string;
+  state: CircuitState;
+  failureCount: number;
+  openedAt: string | null;
+  lastFailureAt: string | null;
+}
+
+export const CIRCUIT_BREAKER_CONFIG = {
+  // Consecutive failed calls (each after full key failover) before opening
+  FAILURE_THRESHOLD: 3,
+  OPEN_DURATION_MS: 30 * 1000,
+  // A probe that never reports back releases the half-open slot after this
+  PROBE_TIMEOUT_MS: 15 * 1000,
+  // How long an isolate trusts its last read of a circuit
+  STATE_TTL_MS: 5 * 1000,
+} as const;
+
+// Per-isolate circuit states, shared across requests; null when no row exists
+const stateCache = new Map<
+  string,
+  { status: CircuitStatus | null; expiresAt: number }
+>();
+
+export class CircuitBreaker {
+  constructor(private readonly d1: D1Database) {}
+
+  /**
+   * Run a call through the named circuit, failing fast while it is open
+   */
+  async execute<T>(name: string, call: () => Promise<T>): Promise<T> {
+    const status = await this.acquire(name);
+
+    try {
+      const result = await call();
+      if (status && (status.state !== "closed" || status.failureCount > 0)) {
+        await this.recordSuccess(name, status.state);
+      }
+      return result;
+    } catch (error) {
+      if (this.isProviderFailure(error)) {
+        await this.recordFailure(name, status?.state ?? "closed", error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current state of every tracked circuit
+   */
+  async listStatuses(): Promise<CircuitStatus[]> {
+    const result = await this.d1
+      .prepare(
+        "SELECT name, state, failure_count, opened_at, last_failure_at FROM circuit_breakers ORDER BY name"
+      )
+      .all();
+
+    return result.results.map((row) => this.toStatus(row));
+  }
+
+  /**
+   * Check whether a call may proceed, claiming the probe slot when the
+   * cool-down has elapsed. Throws while the circuit is open.
+   */
+  private async acquire(name: string): Promise<CircuitStatus | null> {
+    const cached = stateCache.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      const { status: cachedStatus } = cached;
+      if (!cachedStatus || cachedStatus.state === "closed") return cachedStatus;
+
+      // Still cooling down - fail fast without asking D1
+      const openedAt = cachedStatus.openedAt
+        ? new Date(cachedStatus.openedAt).getTime()
+        : 0;
+      if (Date.now() < openedAt + CIRCUIT_BREAKER_CONFIG.OPEN_DURATION_MS) {
+        throw this.openError(cachedStatus);
+      }
+    }
+
+    let status: CircuitStatus | null;
+    try {
+      const row = await this.d1
+        .prepare(
+          "SELECT name, state, failure_count, opened_at, last_failure_at, updated_at FROM circuit_breakers WHERE name = ?"
+        )
+        .bind(name)
+        .first();
+      if (!row) {
+        this.cacheStatus(name, null);
+        return null;
+      }
+
+      status = this.toStatus(row);
+      this.cacheStatus(name, status);
+      if (status.state === "closed") return status;
+
+      // Only one caller across isolates wins the conditional update and probes
+      const now = Date.now();
+      const claimed = await this.d1
+        .prepare(
+          `UPDATE circuit_breakers SET state = 'half_open', updated_at = ?
+           WHERE name = ? AND updated_at = ?
+             AND ((state = 'open' AND ? >= ?) OR (state = 'half_open' AND ? >= ?))`
+        )
+        .bind(
+          new Date(now).toISOString(),
+          name,
+          row.updated_at as string,
+          now,
+          new Date(row.opened_at as string).getTime() +
+            CIRCUIT_BREAKER_CONFIG.OPEN_DURATION_MS,
+          now,
+          new Date(row.updated_at as string).getTime() +
+            CIRCUIT_BREAKER_CONFIG.PROBE_TIMEOUT_MS
+        )
+        .run();
+
+      if (claimed.meta.changes > 0) {
+        logger.info(`Circuit half-open, probing (circuit: ${name})`);
+        return { ...status, state: "half_open" };
+      }
+    } catch (error) {
+      // Breaker storage unavailable - fail open and let the call through
+      logger.warn(
+        `Circuit breaker check failed (circuit: ${name}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+
+    throw this.openError(status);
+  }
+
+  private openError(status: CircuitStatus): Error {
+    return new Error(
+      `Circuit open for ${status.name} (failures: ${status.failureCount}, opened: ${status.openedAt})`
+    );
+  }
+
+  private cacheStatus(name: string, status: CircuitStatus | null): void {
+    stateCache.set(name, {
+      status,
+      expiresAt: Date.now() + CIRCUIT_BREAKER_CONFIG.STATE_TTL_MS,
+    });
+  }
+
+  /**
+   * Close the circuit after a successful call
+   */
+  private async recordSuccess(
+    name: string,
+    previousState: CircuitState
+  ): Promise<void> {
+    try {
+      await this.d1
+        .prepare(
+          "UPDATE circuit_breakers SET state = 'closed', failure_count = 0, opened_at = NULL, updated_at = ? WHERE name = ?"
+        )
+        .bind(new Date().toISOString(), name)
+        .run();
+      this.cacheStatus(name, {
+        name,
+        state: "closed",
+        failureCount: 0,
+        openedAt: null,
+        lastFailureAt: null,
+      });
+
+      if (previousState !== "closed") {
+        logger.info(`Circuit closed (circuit: ${name})`);
+      }
+    } catch (error) {
+      logger.warn(
+        `Circuit breaker update failed (circuit: ${name}): ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Count a failure, opening the circuit at the threshold or on a failed probe
+   */
+  private async recordFailure(
+    name: string,
+    previousState: CircuitState,
+    error: unknown
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const message = error instanceof Error ? error.message : String(error);
+
+    try {
+      const row = await this.d1
+        .prepare(
+          `INSERT INTO circuit_breakers (name, state, failure_count, opened_at, last_failure_at, last_error, updated_at)
+           VALUES (?1, 'closed', 1, NULL, ?2, ?3, ?2)
+           ON CONFLICT(name) DO UPDATE SET
+             failure_count = failure_count + 1,
+             last_failure_at = ?2,
+             last_error = ?3,
+             updated_at = ?2
+           RETURNING failure_count`
+        )
+        .bind(name, now, message.substring(0, 500))
+        .first();
+
+      const failureCount = (row?.failure_count as number) ?? 1;
+      const shouldOpen =
+        previousState === "half_open" ||
+        failureCount >= CIRCUIT_BREAKER_CONFIG.FAILURE_THRESHOLD;
+      this.cacheStatus(name, {
+        name,
+        state: shouldOpen ? "open" : "closed",
+        failureCount,
+        openedAt: shouldOpen ? now : null,
+        lastFailureAt: now,
+      });
+
+      if (shouldOpen) {
+        await this.d1
+          .prepare(
+            "UPDATE circuit_breakers SET state = 'open', opened_at = ?, updated_at = ? WHERE name = ?"
+          )
+          .bind(now, now, name)
+          .run();
+
+        logger.warn(
+          `Circuit opened (circuit: ${name}, failures: ${failureCount}, cooldown: ${CIRCUIT_BREAKER_CONFIG.OPEN_DURATION_MS}ms): ${message}`
+        );
+      }
+    } catch (updateError) {
+      logger.warn(
+        `Circuit breaker update failed (circuit: ${name}): ${updateError instanceof Error ? updateError.message : String(updateError)}`
+      );
+    }
+  }
+
+  /**
+   * Whether an error reflects provider health. Anything the provider throws
+   * counts - binding errors carry no status code - except 4xx client errors
+   * (bad input, auth; 429 is overload and counts), an exhausted latency
+   * budget and cancelled calls, which say nothing about the provider
+   */
+  private isProviderFailure(error: unknown): boolean {
+    if (error instanceof Error && error.name === "AbortError") return false;
+
+    const message = (
+      error instanceof Error ? error.message : String(error)
+    ).toLowerCase();
+    if (
+      message.includes("latency budget exhausted") ||
+      message.includes("request cancelled")
+    ) {
+      return false;
+    }
+
+    return !/\berror 4(?!29)\d\d\b/.test(message);
+  }
+
+  /**
+   * Map a D1 row to a circuit status
+   */
+  private toStatus(row: Record<string, unknown>): CircuitStatus {
+    return {
+      name: row.name as string,
+      state: row.state as CircuitState,
+      failureCount: row.failure_count as number,
+      openedAt: (row.opened_at as string | null) ?? null,
+      lastFailureAt: (row.last_failure_at as string | null) ?? null,
+    };
+  }
+}
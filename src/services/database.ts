@@ -3,8 +3,34 @@
  * Optimized for Cloudflare Workers with external database connection
  */
 import postgres from "postgres";
-import type { AppConfig, SearchOptions, SearchResult } from "../types/index.js";
+import type {
+  AppConfig,
+  ChunkRange,
+  ChunkSimilarity,
+  PageListOptions,
+  PageSummary,
+  SearchFilters,
+  SearchOptions,
+  SearchResult,
+} from "../types/index.js";
+import type { AliasedQuery } from "../utils/apple-aliases.js";
+import {
+  type KeywordQuery,
+  parseKeywordQuery,
+} from "../utils/keyword-query.js";
 import { logger } from "../utils/logger.js";
+import {
+  describeFilters,
+  escapeLikePattern,
+  platformAvailabilityPattern,
+  resolveUrlConstraints,
+} from "../utils/search-filters.js";
+
+// HNSW candidate list size when filters discard part of the nearest neighbors
+const FILTERED_HNSW_EF_SEARCH = 400;
+
+// Rank weight of matches through Apple alias expansion, relative to the query itself
+const ALIAS_RANK_WEIGHT = 0.4;
 
 export class DatabaseService {
   private sql: ReturnType<typeof postgres>;
@@ -44,17 +70,28 @@ export class DatabaseService {
     queryEmbedding: number[],
     options: SearchOptions = {}
   ): Promise<SearchResult[]> {
-    const { resultCount = 5 } = options;
+    const { resultCount = 5, filters } = options;
+    const filterClause = this.buildFilterClause(filters);
 
     try {
-      const results = await this.sql`
-        SELECT id, url, title, content, chunk_index, total_chunks
+      const vector = JSON.stringify(queryEmbedding);
+      const query = (sql: postgres.Sql) => sql`
+        SELECT id, url, title, content, chunk_index, total_chunks,
+               embedding <=> ${vector}::halfvec AS distance
         FROM chunks
-        WHERE embedding IS NOT NULL
-        ORDER BY embedding <=> ${JSON.stringify(queryEmbedding)}::halfvec
+        WHERE embedding IS NOT NULL ${filterClause}
+        ORDER BY embedding <=> ${vector}::halfvec
         LIMIT ${resultCount}
       `;
 
+      // Widen the HNSW scan when filtering so enough neighbors survive the WHERE clause
+      const results = filters
+        ? await this.sql.begin(async (tx) => {
+            await tx`SELECT set_config('hnsw.ef_search', ${String(FILTERED_HNSW_EF_SEARCH)}, true)`;
+            return query(tx);
+          })
+        : await query(this.sql);
+
       return results.map((row) => ({
         id: row.id as string,
         url: row.url as string,
@@ -63,32 +100,147 @@ export class DatabaseService {
         contentLength: (row.content as string).length,
         chunk_index: row.chunk_index as number,
         total_chunks: row.total_chunks as number,
+        vectorDistance: Number(row.distance),
       }));
     } catch (error) {
       logger.error(
-        `Database semantic search failed (operation: semantic_search, embeddingDimensions: ${queryEmbedding.length}, resultCount: ${resultCount}): ${String(error)}`
+        `Database semantic search failed (operation: semantic_search, embeddingDimensions: ${queryEmbedding.length}, resultCount: ${resultCount}, filters: ${describeFilters(filters)}): ${String(error)}`
       );
       throw new Error(`Vector search failed: ${error}`);
     }
   }
 
+  /**
+   * Cosine distances between a query embedding and specific chunks
+   */
+  async getVectorDistances(
+    queryEmbedding: number[],
+    chunkIds: string[]
+  ): Promise<Map<string, number>> {
+    if (chunkIds.length === 0) return new Map();
+
+    try {
+      const vector = JSON.stringify(queryEmbedding);
+      const results = await this.sql`
+        SELECT id, embedding <=> ${vector}::halfvec AS distance
+        FROM chunks
+        WHERE id IN ${this.sql(chunkIds)} AND embedding IS NOT NULL
+      `;
+
+      return new Map(
+        results.map((row) => [row.id as string, Number(row.distance)])
+      );
+    } catch (error) {
+      logger.error(
+        `Database vector distance lookup failed (operation: vector_distances, chunks: ${chunkIds.length}): ${String(error)}`
+      );
+      throw new Error(`Vector distance lookup failed: ${error}`);
+    }
+  }
+
+  /**
+   * Chunks of each page within an inclusive chunk_index range, in one round trip
+   */
+  async getChunkRanges(ranges: ChunkRange[]): Promise<SearchResult[]> {
+    if (ranges.length === 0) return [];
+
+    try {
+      const results = await this.sql`
+        SELECT c.id, c.url, c.title, c.content, c.chunk_index, c.total_chunks
+        FROM chunks c
+        JOIN unnest(
+          ${this.sql.array(ranges.map((r) => r.url))}::text[],
+          ${this.sql.array(ranges.map((r) => r.fromIndex))}::int[],
+          ${this.sql.array(ranges.map((r) => r.toIndex))}::int[]
+        ) AS r(url, from_index, to_index)
+          ON c.url = r.url AND c.chunk_index BETWEEN r.from_index AND r.to_index
+        ORDER BY c.url, c.chunk_index
+      `;
+
+      return results.map((row) => ({
+        id: row.id as string,
+        url: row.url as string,
+        title: row.title as string | null,
+        content: row.content as string,
+        contentLength: (row.content as string).length,
+        chunk_index: row.chunk_index as number,
+        total_chunks: row.total_chunks as number,
+      }));
+    } catch (error) {
+      logger.error(
+        `Database chunk range lookup failed (operation: chunk_ranges, ranges: ${ranges.length}): ${String(error)}`
+      );
+      throw new Error(`Chunk range lookup failed: ${error}`);
+    }
+  }
+
+  /**
+   * Pairwise embedding similarity of the given chunks, for result diversification.
+   * Computed in Postgres so embeddings never leave the database
+   */
+  async getChunkSimilarities(chunkIds: string[]): Promise<ChunkSimilarity[]> {
+    if (chunkIds.length < 2) return [];
+
+    try {
+      const results = await this.sql`
+        SELECT
+          a.id AS first_id,
+          b.id AS second_id,
+          1 - (a.embedding <=> b.embedding) AS similarity
+        FROM chunks AS a
+        JOIN chunks AS b ON a.id < b.id
+        WHERE a.id IN ${this.sql(chunkIds)}
+          AND b.id IN ${this.sql(chunkIds)}
+          AND a.embedding IS NOT NULL
+          AND b.embedding IS NOT NULL
+      `;
+
+      return results.map((row) => ({
+        firstId: row.first_id as string,
+        secondId: row.second_id as string,
+        similarity: Number(row.similarity),
+      }));
+    } catch (error) {
+      logger.error(
+        `Database similarity lookup failed (operation: chunk_similarities, chunks: ${chunkIds.length}): ${String(error)}`
+      );
+      throw new Error(`Chunk similarity lookup failed: ${error}`);
+    }
+  }
+
   /**
    * Keyword search optimized for Apple Developer Documentation
    * Uses PostgreSQL 'simple' configuration for precise matching of technical terms,
    * API names, and special symbols (@State, SecItemAdd, etc.)
+   *
+   * Supports "quoted phrases" (websearch syntax) and prefix terms (NSPersistentCloud*),
+   * ranked by ts_rank_cd with title matches weighted above content matches.
+   * Apple jargon is OR-expanded in place with its aliases ((Core Data | NSPersistentContainer)
+   * & migration); matches found through the expansion rank at ALIAS_RANK_WEIGHT.
    */
   async keywordSearch(
     query: string,
     options: SearchOptions = {}
   ): Promise<SearchResult[]> {
-    const { resultCount = 5 } = options;
+    const { resultCount = 5, filters } = options;
+    const keywordQuery = parseKeywordQuery(query);
+    const tsQuery = this.buildTsQuery(keywordQuery);
+    const aliasQuery =
+      keywordQuery.aliasedClauses.length > 0
+        ? this.buildAliasTsQuery(keywordQuery)
+        : null;
 
     try {
+      // The WHERE expression stays identical to the full-text index definition;
+      // the weighted vector is only computed for matching rows when ranking
       const results = await this.sql`
-        SELECT id, url, title, content, chunk_index, total_chunks
+        SELECT id, url, title, content, chunk_index, total_chunks,
+               ${this.buildKeywordRank(tsQuery, aliasQuery)} AS rank
         FROM chunks
         WHERE to_tsvector('simple', COALESCE(title, '') || ' ' || content)
-              @@ plainto_tsquery('simple', ${query})
+              @@ ${aliasQuery ?? tsQuery}
+              ${this.buildFilterClause(filters)}
+        ORDER BY rank DESC
         LIMIT ${resultCount}
       `;
 
@@ -100,15 +252,113 @@ export class DatabaseService {
         contentLength: (row.content as string).length,
         chunk_index: row.chunk_index as number,
         total_chunks: row.total_chunks as number,
+        keywordScore: Number(row.rank),
       }));
     } catch (error) {
       logger.error(
-        `Database keyword search failed (operation: keyword_search, query: ${query.substring(0, 50)}, resultCount: ${resultCount}): ${String(error)}`
+        `Database keyword search failed (operation: keyword_search, query: ${query.substring(0, 50)}, resultCount: ${resultCount}, filters: ${describeFilters(filters)}): ${String(error)}`
       );
       throw new Error(`Keyword search failed: ${error}`);
     }
   }
 
+  /**
+   * Build ts_rank_cd SQL fragment; alias-expanded matches count at reduced weight
+   */
+  private buildKeywordRank(
+    tsQuery: ReturnType<DatabaseService["buildTsQuery"]>,
+    aliasQuery: ReturnType<DatabaseService["buildTsQuery"]> | null
+  ) {
+    const weightedVector = this.sql`
+      setweight(to_tsvector('simple', COALESCE(title, '')), 'A') ||
+      setweight(to_tsvector('simple', content), 'C')`;
+    const rank = this.sql`ts_rank_cd(${weightedVector}, ${tsQuery}, 1)`;
+
+    return aliasQuery
+      ? this
+          .sql`GREATEST(${rank}, ${ALIAS_RANK_WEIGHT} * ts_rank_cd(${weightedVector}, ${aliasQuery}, 1))`
+      : rank;
+  }
+
+  /**
+   * Build tsquery SQL fragment with each Apple term replaced by (term | alias ...),
+   * keeping the rest of its clause AND'ed
+   */
+  private buildAliasTsQuery({ aliasedClauses, prefixTerms }: KeywordQuery) {
+    const clauses = aliasedClauses.map((clause) =>
+      this.buildAliasClause(clause)
+    );
+    const alternatives = clauses
+      .slice(1)
+      .reduce((query, clause) => this.sql`${query} || ${clause}`, clauses[0]);
+
+    return prefixTerms.length > 0
+      ? this
+          .sql`((${alternatives}) && to_tsquery('simple', ${prefixTerms.join(" & ")}))`
+      : this.sql`(${alternatives})`;
+  }
+
+  /**
+   * Build one OR-separated clause: its remaining text AND each expanded term
+   */
+  private buildAliasClause({ text, expansions }: AliasedQuery) {
+    const parts = expansions.map(({ term, aliases }) => {
+      const terms = aliases.reduce(
+        (query, alias) =>
+          this.sql`${query} || websearch_to_tsquery('simple', ${`"${alias}"`})`,
+        this.sql`websearch_to_tsquery('simple', ${term})`
+      );
+      return this.sql`(${terms})`;
+    });
+    if (text) parts.unshift(this.sql`websearch_to_tsquery('simple', ${text})`);
+
+    const clause = parts
+      .slice(1)
+      .reduce((query, part) => this.sql`${query} && ${part}`, parts[0]);
+    return this.sql`(${clause})`;
+  }
+
+  /**
+   * Build tsquery SQL fragment from parsed keyword query
+   */
+  private buildTsQuery({ text, prefixTerms }: KeywordQuery) {
+    const prefixQuery = prefixTerms.join(" & ");
+
+    if (!prefixQuery) {
+      return this.sql`websearch_to_tsquery('simple', ${text})`;
+    }
+    if (!text) {
+      return this.sql`to_tsquery('simple', ${prefixQuery})`;
+    }
+    return this
+      .sql`(websearch_to_tsquery('simple', ${text}) && to_tsquery('simple', ${prefixQuery}))`;
+  }
+
+  /**
+   * Build "AND ..." SQL fragment restricting chunks to the filtered URLs and
+   * to pages whose first chunk lists the filtered platform's availability
+   */
+  private buildFilterClause(filters?: SearchFilters) {
+    const platformClause = filters?.platform
+      ? this.sql` AND EXISTS (
+          SELECT 1 FROM chunks AS page_head
+          WHERE page_head.url = chunks.url AND page_head.chunk_index = 0
+            AND page_head.content ~ ${platformAvailabilityPattern(filters.platform)}
+        )`
+      : this.sql``;
+
+    return resolveUrlConstraints(filters).reduce(
+      (clause, { prefix, pathBoundary }) => {
+        const pattern = escapeLikePattern(prefix);
+        return pathBoundary
+          ? this
+              .sql`${clause} AND (url = ${prefix} OR url LIKE ${`${pattern}/%`})`
+          : this.sql`${clause} AND url LIKE ${`${pattern}%`}`;
+      },
+      platformClause
+    );
+  }
+
   /**
    * Normalize URL for flexible matching
    */
@@ -186,6 +436,59 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * List pages ordered by URL with keyset pagination
+   */
+  async listPages(options: PageListOptions): Promise<PageSummary[]> {
+    const { afterUrl, limit } = options;
+
+    try {
+      const results = await this.sql`
+        SELECT url, title, LENGTH(content) AS content_length
+        FROM pages
+        ${afterUrl ? this.sql`WHERE url > ${afterUrl}` : this.sql``}
+        ORDER BY url ASC
+        LIMIT ${limit}
+      `;
+
+      return results.map((row) => ({
+        url: row.url as string,
+        title: row.title as string | null,
+        contentLength: Number(row.content_length),
+      }));
+    } catch (error) {
+      logger.error(
+        `Database page listing failed (operation: page_list, afterUrl: ${afterUrl?.substring(0, 100)}, limit: ${limit}): ${String(error)}`
+      );
+      throw new Error(`Page listing failed: ${error}`);
+    }
+  }
+
+  /**
+   * Read the corpus version stamped by the ingestion pipeline
+   *
+   * Expects: corpus_metadata (key TEXT PRIMARY KEY, value TEXT, updated_at TIMESTAMPTZ)
+   * with a "corpus_version" row bumped on every re-ingest. A missing table
+   * means the deployment does not version its corpus and yields null.
+   */
+  async getCorpusVersion(): Promise<string | null> {
+    try {
+      const results = await this.sql`
+        SELECT value FROM corpus_metadata
+        WHERE key = 'corpus_version'
+        LIMIT 1
+      `;
+
+      return results.length > 0 ? String(results[0].value) : null;
+    } catch (error) {
+      // undefined_table
+      if ((error as { code?: string }).code === "42P01") return null;
+
+      // Logged by the result cache, which re-checks every minute
+      throw new Error(`Corpus version lookup failed: ${error}`);
+    }
+  }
+
   /**
    * Close database connection
    */
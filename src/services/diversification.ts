@@ -0,0 +1,127 @@
+/**
+ * Result Diversification
+ * Maximal Marginal Relevance selection over reranked results
+ *
+ * score = (1 - diversity) × relevance - diversity × max similarity to selected
+ *
+ * Similarity is the larger of embedding cosine similarity and combined title/URL
+ * overlap, so platform variants of the same API and overlapping transcripts count
+ * as near-duplicates while same-titled pages of unrelated frameworks do not.
+ */
+
+import type { ChunkSimilarity } from "../types/index.js";
+
+export interface DiversityCandidate {
+  // Chunk id, matched against the embedding similarities
+  id: string;
+  // Relevance normalized to [0, 1]
+  relevance: number;
+  url: string;
+  title: string | null;
+}
+
+/**
+ * Select `count` candidate indices by MMR, in selection order
+ */
+export function selectByMMR(
+  candidates: DiversityCandidate[],
+  count: number,
+  diversity: number,
+  embeddingSimilarities: ChunkSimilarity[] = []
+): number[] {
+  const embeddingSimilarity = new Map(
+    embeddingSimilarities.map((s) => [
+      pairKey(s.firstId, s.secondId),
+      s.similarity,
+    ])
+  );
+  const selected: number[] = [];
+  const remaining = candidates.map((_, index) => index);
+  const textFeatures = candidates.map((c) => ({
+    titleTokens: tokenSet(c.title ?? ""),
+    urlTokens: urlTokenSet(c.url),
+  }));
+
+  // Highest similarity of each remaining candidate to anything selected so far
+  const maxSimilarity = candidates.map(() => 0);
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = Number.NEGATIVE_INFINITY;
+
+    remaining.forEach((index, position) => {
+      const score =
+        (1 - diversity) * candidates[index].relevance -
+        diversity * maxSimilarity[index];
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    const [chosen] = remaining.splice(bestPosition, 1);
+    selected.push(chosen);
+
+    for (const index of remaining) {
+      const similarity = Math.max(
+        embeddingSimilarity.get(
+          pairKey(candidates[index].id, candidates[chosen].id)
+        ) ?? 0,
+        (jaccard(
+          textFeatures[index].titleTokens,
+          textFeatures[chosen].titleTokens
+        ) +
+          jaccard(
+            textFeatures[index].urlTokens,
+            textFeatures[chosen].urlTokens
+          )) /
+          2
+      );
+      maxSimilarity[index] = Math.max(maxSimilarity[index], similarity);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Order-independent key of a chunk pair
+ */
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
+/**
+ * Lowercase word tokens of a title
+ */
+function tokenSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+}
+
+/**
+ * Path segments of a URL, ignoring the host
+ */
+function urlTokenSet(url: string): Set<string> {
+  try {
+    const { pathname, searchParams } = new URL(url);
+    const segments = pathname.toLowerCase().split("/").filter(Boolean);
+    // YouTube videos are identified by their query string
+    const videoId = searchParams.get("v");
+    return new Set(videoId ? [...segments, videoId] : segments);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Jaccard overlap of two token sets
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let intersection = 0;
+  for (const token of a) {
+    if (b.has(token)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
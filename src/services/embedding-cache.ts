@@ -0,0 +1,162 @@
+/**
+ * Embedding Cache Service
+ * D1-backed cache of query embeddings keyed on model + normalized text
+ */
+
+import { sha256Hex } from "../utils/hash.js";
+import { logger } from "../utils/logger.js";
+
+export const EMBEDDING_CACHE_CONFIG = {
+  TTL_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+  MAX_ENTRIES: 20000,
+  // Fraction of writes that also prune expired and excess entries
+  PRUNE_PROBABILITY: 0.02,
+} as const;
+
+// Per-isolate counters, surfaced in cache log lines
+const stats = { hits: 0, misses: 0 };
+
+export class EmbeddingCache {
+  constructor(private readonly d1: D1Database) {}
+
+  /**
+   * Normalize query text so trivially different inputs share an entry
+   */
+  static normalize(text: string): string {
+    return text.normalize("NFC").replace(/\s+/g, " ").trim();
+  }
+
+  /**
+   * Build cache key from provider model name and normalized text
+   */
+  async buildKey(model: string, normalizedText: string): Promise<string> {
+    return sha256Hex(`${model}\n${normalizedText}`);
+  }
+
+  /**
+   * Get a cached embedding, or null on miss, expiry or cache failure
+   */
+  async get(cacheKey: string): Promise<number[] | null> {
+    try {
+      const row = await this.d1
+        .prepare(
+          "SELECT embedding, created_at FROM embedding_cache WHERE cache_key = ?"
+        )
+        .bind(cacheKey)
+        .first();
+
+      const createdAt = row ? new Date(row.created_at as string).getTime() : 0;
+      if (!row || Date.now() - createdAt > EMBEDDING_CACHE_CONFIG.TTL_MS) {
+        stats.misses++;
+        logger.info(
+          `Embedding cache miss (key: ${cacheKey.substring(0, 12)}, ${this.describeStats()})`
+        );
+        return null;
+      }
+
+      stats.hits++;
+      logger.info(
+        `Embedding cache hit (key: ${cacheKey.substring(0, 12)}, ${this.describeStats()})`
+      );
+
+      await this.d1
+        .prepare(
+          "UPDATE embedding_cache SET hit_count = hit_count + 1, last_hit_at = ? WHERE cache_key = ?"
+        )
+        .bind(new Date().toISOString(), cacheKey)
+        .run();
+
+      return this.decode(row.embedding);
+    } catch (error) {
+      logger.warn(
+        `Embedding cache read failed (key: ${cacheKey.substring(0, 12)}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Store an embedding, replacing any expired entry for the same key
+   */
+  async set(
+    cacheKey: string,
+    model: string,
+    embedding: number[]
+  ): Promise<void> {
+    try {
+      await this.d1
+        .prepare(
+          `INSERT OR REPLACE INTO embedding_cache
+           (cache_key, model, dimensions, embedding, hit_count, created_at, last_hit_at)
+           VALUES (?, ?, ?, ?, 0, ?, NULL)`
+        )
+        .bind(
+          cacheKey,
+          model,
+          embedding.length,
+          new Float32Array(embedding).buffer,
+          new Date().toISOString()
+        )
+        .run();
+
+      if (Math.random() < EMBEDDING_CACHE_CONFIG.PRUNE_PROBABILITY) {
+        await this.prune();
+      }
+    } catch (error) {
+      logger.warn(
+        `Embedding cache write failed (key: ${cacheKey.substring(0, 12)}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      // Cache failures must not fail the search
+    }
+  }
+
+  /**
+   * Delete expired entries and the oldest entries beyond the size bound
+   */
+  private async prune(): Promise<void> {
+    const cutoff = new Date(
+      Date.now() - EMBEDDING_CACHE_CONFIG.TTL_MS
+    ).toISOString();
+
+    const [expired, excess] = await this.d1.batch([
+      this.d1
+        .prepare("DELETE FROM embedding_cache WHERE created_at < ?")
+        .bind(cutoff),
+      this.d1
+        .prepare(
+          `DELETE FROM embedding_cache WHERE cache_key IN (
+             SELECT cache_key FROM embedding_cache
+             ORDER BY COALESCE(last_hit_at, created_at) DESC
+             LIMIT -1 OFFSET ?
+           )`
+        )
+        .bind(EMBEDDING_CACHE_CONFIG.MAX_ENTRIES),
+    ]);
+
+    logger.info(
+      `Embedding cache pruned (expired: ${expired.meta.changes}, excess: ${excess.meta.changes})`
+    );
+  }
+
+  /**
+   * Decode a stored Float32 blob
+   */
+  private decode(value: unknown): number[] {
+    // D1 returns BLOB columns as ArrayBuffer or as a byte array depending on runtime
+    const buffer =
+      value instanceof ArrayBuffer
+        ? value
+        : new Uint8Array(value as ArrayLike<number>).buffer;
+
+    return Array.from(new Float32Array(buffer));
+  }
+
+  /**
+   * Hit/miss counters for log lines
+   */
+  private describeStats(): string {
+    const total = stats.hits + stats.misses;
+    const hitRate = total > 0 ? ((stats.hits / total) * 100).toFixed(1) : "0.0";
+    return `hits: ${stats.hits}, misses: ${stats.misses}, hitRate: ${hitRate}%`;
+  }
+}
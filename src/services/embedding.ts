@@ -1,81 +1,89 @@
 /**
  * Modern Embedding Service - MCP Optimized
- * SiliconFlow API integration with unified multi-key failover
+ * Provider-agnostic query embedding with L2 normalization and caching
  */
 
-import type { EmbeddingService as IEmbeddingService } from "../types/index.js";
+import type {
+  EmbeddingService as IEmbeddingService,
+  UsageCallback,
+} from "../types/index.js";
 import { logger } from "../utils/logger.js";
-import { SiliconFlowService } from "./siliconflow-base.js";
-import { SILICONFLOW_CONFIG } from "./siliconflow-config.js";
+import type { CircuitBreaker } from "./circuit-breaker.js";
+import { EmbeddingCache } from "./embedding-cache.js";
+import type { EmbeddingProvider } from "./providers/index.js";
 
-interface EmbeddingInput {
-  text: string;
-}
-
-interface EmbeddingPayload {
-  model: "Qwen/Qwen3-Embedding-4B";
-  input: string;
-  encoding_format: "float";
-}
+export class EmbeddingService implements IEmbeddingService {
+  constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly cache?: EmbeddingCache,
+    private readonly circuitBreaker?: CircuitBreaker
+  ) {}
 
-interface EmbeddingResponse {
-  data: Array<{
-    embedding: number[];
-  }>;
-}
-
-export class EmbeddingService
-  extends SiliconFlowService<EmbeddingInput, EmbeddingResponse, number[]>
-  implements IEmbeddingService
-{
-  protected readonly endpoint = "/embeddings";
+  /**
+   * Name of the underlying embedding provider
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
 
   /**
-   * Create embedding with multi-key failover
+   * Create normalized embedding through the configured provider
    */
-  async createEmbedding(text: string): Promise<number[]> {
+  async createEmbedding(
+    text: string,
+    onUsage?: UsageCallback
+  ): Promise<number[]> {
     if (!text?.trim()) {
       throw new Error("Text cannot be empty for embedding generation");
     }
 
-    const input: EmbeddingInput = { text: text.trim() };
-    return this.callWithFailover(input, "Embedding generation");
-  }
+    const normalizedText = EmbeddingCache.normalize(text);
+    if (!this.cache) {
+      return this.generate(normalizedText, onUsage);
+    }
 
-  /**
-   * Build API payload from request
-   */
-  protected buildPayload(input: EmbeddingInput): EmbeddingPayload {
-    return {
-      model: SILICONFLOW_CONFIG.EMBEDDING_MODEL,
-      input: input.text,
-      encoding_format: "float",
-    };
-  }
+    const cacheKey = await this.cache.buildKey(
+      this.provider.name,
+      normalizedText
+    );
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
 
-  /**
-   * Process API response and return normalized embedding
-   */
-  protected processResponse(response: EmbeddingResponse): number[] {
-    const embedding = this.extractEmbedding(response);
-    return this.normalizeL2(embedding);
+    const embedding = await this.generate(normalizedText, onUsage);
+    await this.cache.set(cacheKey, this.provider.name, embedding);
+    return embedding;
   }
 
   /**
-   * Extract embedding from API response
+   * Generate normalized embedding through the provider, failing fast while
+   * its circuit is open
    */
-  private extractEmbedding(response: EmbeddingResponse): number[] {
-    const embedding = response.data?.[0]?.embedding;
-
-    if (!embedding || !Array.isArray(embedding)) {
-      throw new Error("No embedding data received from SiliconFlow API");
-    }
+  private async generate(
+    text: string,
+    onUsage?: UsageCallback
+  ): Promise<number[]> {
+    const { embedding, usage } = this.circuitBreaker
+      ? await this.circuitBreaker.execute(
+          `embedding:${this.provider.name}`,
+          () => this.provider.embed(text)
+        )
+      : await this.provider.embed(text);
+
+    onUsage?.({
+      provider: this.provider.name,
+      operation: "embedding",
+      keyId: usage?.keyId ?? null,
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+    });
 
     if (embedding.length === 0) {
-      throw new Error("Empty embedding received from SiliconFlow API");
+      throw new Error(`Empty embedding received from ${this.provider.name}`);
     }
 
-    return embedding;
+    return this.normalizeL2(embedding);
   }
 
   /**
@@ -0,0 +1,105 @@
+/**
+ * Candidate Fusion
+ * Combines ranked candidate lists from different retrievers into one ranking
+ *
+ * - Reciprocal Rank Fusion: score = Σ weight / (k + rank)
+ * - Linear fusion: score = Σ weight × min-max normalized retriever score
+ */
+
+import type { SearchResult } from "../types/index.js";
+import type { FusionConfig } from "./search-config.js";
+
+export type RetrievalSource = "semantic" | "keyword";
+
+export interface RankedList {
+  source: RetrievalSource;
+  results: SearchResult[];
+}
+
+export interface FusedCandidate extends SearchResult {
+  fusedScore: number;
+  // 1-based rank of the candidate in each list it appeared in
+  ranks: Partial<Record<RetrievalSource, number>>;
+}
+
+/**
+ * Fuse ranked lists, deduplicating by chunk ID, ordered by fused score
+ */
+export function fuseCandidates(
+  lists: RankedList[],
+  config: FusionConfig
+): FusedCandidate[] {
+  const fused = new Map<string, FusedCandidate>();
+
+  for (const list of lists) {
+    const weight = sourceWeight(list.source, config);
+    const scores =
+      config.METHOD === "linear"
+        ? normalizeScores(list)
+        : list.results.map((_, index) => 1 / (config.RRF_K + index + 1));
+
+    list.results.forEach((result, index) => {
+      const rank = index + 1;
+      const existing = fused.get(result.id);
+
+      if (!existing) {
+        fused.set(result.id, {
+          ...result,
+          fusedScore: weight * scores[index],
+          ranks: { [list.source]: rank },
+        });
+        return;
+      }
+
+      // Same chunk from another list - accumulate score, keep best rank per source
+      existing.fusedScore += weight * scores[index];
+      existing.vectorDistance ??= result.vectorDistance;
+      existing.keywordScore ??= result.keywordScore;
+      const previousRank = existing.ranks[list.source];
+      if (previousRank === undefined || rank < previousRank) {
+        existing.ranks[list.source] = rank;
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.fusedScore - a.fusedScore);
+}
+
+/**
+ * Weight configured for a retrieval source
+ */
+function sourceWeight(source: RetrievalSource, config: FusionConfig): number {
+  return source === "semantic" ? config.SEMANTIC_WEIGHT : config.KEYWORD_WEIGHT;
+}
+
+/**
+ * Min-max normalize retriever scores within a list to [0, 1]
+ */
+function normalizeScores(list: RankedList): number[] {
+  const raw = list.results.map((result, index) =>
+    rawScore(list.source, result, index)
+  );
+  const min = Math.min(...raw);
+  const max = Math.max(...raw);
+
+  if (max === min) return raw.map(() => 1);
+  return raw.map((score) => (score - min) / (max - min));
+}
+
+/**
+ * Raw retriever score - cosine similarity for vectors, ts_rank_cd for keywords
+ */
+function rawScore(
+  source: RetrievalSource,
+  result: SearchResult,
+  index: number
+): number {
+  if (source === "semantic" && result.vectorDistance !== undefined) {
+    return 1 - result.vectorDistance;
+  }
+  if (source === "keyword" && result.keywordScore !== undefined) {
+    return result.keywordScore;
+  }
+  // No retriever score available, so fall back to list position
+  return 1 / (index + 1);
+}
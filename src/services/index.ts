@@ -5,9 +5,16 @@
 
 import { AuthMiddleware } from "../auth/auth-middleware.js";
 import type { AppConfig, Services, WorkerEnv } from "../types/index.js";
+import {
+  resolveEmbeddingConfig,
+  resolveRerankConfig,
+} from "./providers/index.js";
 import { RAGService } from "./rag.js";
 import { RateLimitService } from "./rate-limit.js";
+import { SearchCursorCodec } from "./search-cursor.js";
+import { SessionService } from "./session.js";
 import { ToolCallLogger } from "./tool-call-logger.js";
+import { UsageTracker } from "./usage-tracker.js";
 
 /**
  * Create all services from Worker environment with validation
@@ -17,11 +24,16 @@ export async function createServices(env: WorkerEnv): Promise<Services> {
     // Convert Worker env to app config
     const config = createAppConfig(env);
 
-    // Initialize services with D1 database for key management
-    const auth = new AuthMiddleware(env.DB);
-    const rag = new RAGService(config, env.DB);
+    // Initialize services with D1 database and inference provider bindings
+    const auth = new AuthMiddleware(env.DB, parseAdminUserIds(env));
+    const rag = new RAGService(config, { db: env.DB, ai: env.AI });
     const rateLimit = new RateLimitService(env.DB);
     const logger = new ToolCallLogger(env.DB);
+    const session = new SessionService(env.DB);
+    const usage = new UsageTracker(env.DB);
+    const cursors = env.CURSOR_SECRET
+      ? new SearchCursorCodec(env.CURSOR_SECRET)
+      : undefined;
 
     // Initialize async services
     await rag.initialize();
@@ -33,6 +45,9 @@ export async function createServices(env: WorkerEnv): Promise<Services> {
       embedding: rag.embedding,
       rateLimit,
       logger,
+      session,
+      usage,
+      cursors,
     };
   } catch (error) {
     // Import logger here to avoid circular dependency
@@ -44,6 +59,16 @@ export async function createServices(env: WorkerEnv): Promise<Services> {
   }
 }
 
+/**
+ * Admin user IDs from the comma-separated ADMIN_USER_IDS variable
+ */
+function parseAdminUserIds(env: WorkerEnv): string[] {
+  return (env.ADMIN_USER_IDS ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
 /**
  * Convert Worker environment to app configuration
  */
@@ -55,5 +80,7 @@ function createAppConfig(env: WorkerEnv): AppConfig {
     RAG_DB_USER: env.RAG_DB_USER,
     RAG_DB_PASSWORD: env.RAG_DB_PASSWORD,
     RAG_DB_SSLMODE: env.RAG_DB_SSLMODE,
+    EMBEDDING: resolveEmbeddingConfig(env),
+    RERANKER: resolveRerankConfig(env),
   };
 }
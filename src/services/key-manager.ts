@@ -1,38 +1,120 @@
 /**
  * SiliconFlow API Key Manager - MCP Optimized
- * Multi-key failover without caching for single-execution MCP tools
+ * Least-recently-used key rotation with quarantine instead of deletion
  */
 
+import { logger } from "../utils/logger.js";
+import { SILICONFLOW_CONFIG } from "./siliconflow-config.js";
+
+export interface SiliconFlowApiKey {
+  id: number;
+  key: string;
+  // Set when the key was quarantined and is now being retried after cool-down
+  disabledAt: string | null;
+}
+
 export class SiliconFlowKeyManager {
   constructor(private readonly db: D1Database) {}
 
   /**
-   * Get current available API key (no caching for MCP)
+   * Get the least-recently-used healthy API key (no caching for MCP)
+   *
+   * Quarantined keys become eligible again once their cool-down elapses and
+   * then compete on LRU order like any other key, so they do get retried.
+   * The key is claimed in one statement, so concurrent calls get different keys.
    */
-  async getCurrentKey(): Promise<string> {
+  async getCurrentKey(excludeIds: number[] = []): Promise<SiliconFlowApiKey> {
+    const now = new Date();
+    const cooldownCutoff = new Date(
+      now.getTime() - SILICONFLOW_CONFIG.KEY_QUARANTINE_MS
+    ).toISOString();
+    const exclusions = excludeIds.length
+      ? `AND id NOT IN (${excludeIds.map(() => "?").join(", ")})`
+      : "";
+
+    // Select and move the key to the back of the LRU order in one statement
     const result = await this.db
       .prepare(
-        "SELECT api_key FROM siliconflow_api_keys ORDER BY id ASC LIMIT 1"
+        `UPDATE siliconflow_api_keys
+         SET last_used_at = ?, usage_count = usage_count + 1
+         WHERE id = (
+           SELECT id FROM siliconflow_api_keys
+           WHERE (disabled_at IS NULL OR disabled_at < ?) ${exclusions}
+           ORDER BY last_used_at IS NOT NULL, last_used_at ASC, id ASC
+           LIMIT 1
+         )
+         RETURNING id, api_key, disabled_at`
       )
+      .bind(now.toISOString(), cooldownCutoff, ...excludeIds)
       .first();
 
     if (!result) {
       throw new Error("No SiliconFlow API keys available");
     }
 
-    return result.api_key as string;
+    return {
+      id: result.id as number,
+      key: result.api_key as string,
+      disabledAt: (result.disabled_at as string | null) ?? null,
+    };
   }
 
   /**
-   * Remove invalid API key
+   * Quarantine an API key instead of deleting it
    */
-  async removeKey(key: string): Promise<boolean> {
-    const result = await this.db
-      .prepare("DELETE FROM siliconflow_api_keys WHERE api_key = ?")
-      .bind(key)
+  async quarantineKey(
+    apiKey: SiliconFlowApiKey,
+    reason: string
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        "UPDATE siliconflow_api_keys SET disabled_at = ?, disabled_reason = ? WHERE id = ?"
+      )
+      .bind(new Date().toISOString(), reason.substring(0, 500), apiKey.id)
       .run();
 
-    return result.success && result.meta.changes > 0;
+    logger.warn(
+      `SiliconFlow API key quarantined (keyId: ${apiKey.id}, cooldown: ${SILICONFLOW_CONFIG.KEY_QUARANTINE_MS}ms, retry: ${apiKey.disabledAt !== null}): ${reason.substring(0, 200)}`
+    );
+  }
+
+  /**
+   * Record a successful call, restoring a key that passed its post-cool-down retry.
+   * Best-effort: the call already succeeded and must not be retried over bookkeeping
+   */
+  async recordSuccess(apiKey: SiliconFlowApiKey): Promise<void> {
+    if (apiKey.disabledAt === null) return;
+
+    try {
+      await this.db
+        .prepare(
+          "UPDATE siliconflow_api_keys SET disabled_at = NULL, disabled_reason = NULL WHERE id = ?"
+        )
+        .bind(apiKey.id)
+        .run();
+
+      logger.info(`SiliconFlow API key restored (keyId: ${apiKey.id})`);
+    } catch (error) {
+      logger.warn(
+        `SiliconFlow API key restore failed (keyId: ${apiKey.id}): ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Record a failed call against a key
+   */
+  async recordError(apiKey: SiliconFlowApiKey, error: Error): Promise<void> {
+    await this.db
+      .prepare(
+        "UPDATE siliconflow_api_keys SET error_count = error_count + 1, last_error_at = ?, last_error = ? WHERE id = ?"
+      )
+      .bind(
+        new Date().toISOString(),
+        error.message.substring(0, 500),
+        apiKey.id
+      )
+      .run();
   }
 
   /**
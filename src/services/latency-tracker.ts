@@ -0,0 +1,41 @@
+/**
+ * Latency Tracker
+ * Sliding window of call latencies for percentile-based hedging delays
+ */
+
+export class LatencyTracker {
+  private readonly samples: number[] = [];
+
+  constructor(private readonly windowSize: number) {}
+
+  /**
+   * Number of latencies currently in the window
+   */
+  get size(): number {
+    return this.samples.length;
+  }
+
+  /**
+   * Record a call latency, evicting the oldest sample when full
+   */
+  record(durationMs: number): void {
+    this.samples.push(durationMs);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Latency at the given percentile (0-1), or null without samples
+   */
+  percentile(p: number): number | null {
+    if (this.samples.length === 0) return null;
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const index = Math.min(
+      sorted.length - 1,
+      Math.max(0, Math.ceil(p * sorted.length) - 1)
+    );
+    return sorted[index];
+  }
+}
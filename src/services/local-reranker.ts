@@ -0,0 +1,175 @@
+/**
+ * Local Reranker
+ * In-process fallback ranking when the remote reranker is unavailable
+ *
+ * - BM25 over the candidate set, title field weighted above content
+ * - Boost for exact API symbol matches (NavigationStack, @State, URLSession.shared)
+ * - Cosine similarity to the query embedding when available
+ */
+
+import { extractApiSymbols } from "../utils/api-symbols.js";
+import type { RankedDocument } from "./providers/index.js";
+import type { LocalRerankConfig } from "./search-config.js";
+
+export interface LocalRerankCandidate {
+  title: string | null;
+  content: string;
+  // Cosine similarity to the query embedding, if known
+  similarity?: number;
+}
+
+interface TermStats {
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Rank candidates locally, best first, truncated to topN
+ */
+export function localRerank(
+  query: string,
+  candidates: LocalRerankCandidate[],
+  topN: number,
+  config: LocalRerankConfig
+): RankedDocument[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const symbols = extractApiSymbols(query);
+
+  const contentStats = candidates.map((c) => termStats(c.content));
+  const titleStats = candidates.map((c) => termStats(c.title ?? ""));
+
+  const contentScores = bm25Scores(queryTerms, contentStats, config);
+  const titleScores = bm25Scores(queryTerms, titleStats, config);
+  const lexicalScores = normalizeByMax(
+    contentScores.map(
+      (score, index) => score + config.TITLE_WEIGHT * titleScores[index]
+    )
+  );
+
+  const hasSimilarity = candidates.some((c) => c.similarity !== undefined);
+
+  return candidates
+    .map((candidate, index) => {
+      const weighted: Array<[number, number]> = [
+        [config.LEXICAL_WEIGHT, lexicalScores[index]],
+      ];
+      if (symbols.length > 0) {
+        weighted.push([config.SYMBOL_WEIGHT, symbolScore(symbols, candidate)]);
+      }
+      if (hasSimilarity) {
+        weighted.push([config.COSINE_WEIGHT, candidate.similarity ?? 0]);
+      }
+
+      const totalWeight = weighted.reduce((sum, [weight]) => sum + weight, 0);
+      const score =
+        weighted.reduce((sum, [weight, value]) => sum + weight * value, 0) /
+        totalWeight;
+
+      return {
+        content: candidate.content,
+        originalIndex: index,
+        relevanceScore: score,
+      };
+    })
+    .sort((a, b) => b.relevanceScore - a.relevanceScore)
+    .slice(0, topN);
+}
+
+/**
+ * Lowercase word tokens, with camelCase identifiers also split into parts
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const word of text.match(/[A-Za-z0-9]+/g) ?? []) {
+    tokens.push(word.toLowerCase());
+
+    const parts = word.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? [];
+    if (parts.length > 1) {
+      tokens.push(...parts.map((part) => part.toLowerCase()));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Share of query symbols found verbatim - title matches count fully, content half
+ */
+function symbolScore(
+  symbols: string[],
+  candidate: LocalRerankCandidate
+): number {
+  const title = candidate.title ?? "";
+
+  const matched = symbols.reduce((sum, symbol) => {
+    if (title.includes(symbol)) return sum + 1;
+    if (candidate.content.includes(symbol)) return sum + 0.5;
+    return sum;
+  }, 0);
+
+  return matched / symbols.length;
+}
+
+/**
+ * Term frequencies and length of a field
+ */
+function termStats(text: string): TermStats {
+  const frequencies = new Map<string, number>();
+  const tokens = tokenize(text);
+
+  for (const token of tokens) {
+    frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+  }
+
+  return { frequencies, length: tokens.length };
+}
+
+/**
+ * Okapi BM25 of every document, with IDF computed over the candidate set
+ */
+function bm25Scores(
+  queryTerms: string[],
+  documents: TermStats[],
+  config: LocalRerankConfig
+): number[] {
+  const documentCount = documents.length;
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / documentCount || 1;
+
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const containing = documents.filter((doc) =>
+        doc.frequencies.has(term)
+      ).length;
+      return [
+        term,
+        Math.log(1 + (documentCount - containing + 0.5) / (containing + 0.5)),
+      ];
+    })
+  );
+
+  return documents.map((doc) =>
+    queryTerms.reduce((score, term) => {
+      const frequency = doc.frequencies.get(term) ?? 0;
+      if (frequency === 0) return score;
+
+      const lengthNorm =
+        1 - config.BM25_B + (config.BM25_B * doc.length) / averageLength;
+      return (
+        score +
+        (idf.get(term) ?? 0) *
+          ((frequency * (config.BM25_K1 + 1)) /
+            (frequency + config.BM25_K1 * lengthNorm))
+      );
+    }, 0)
+  );
+}
+
+/**
+ * Scale scores into [0, 1] by the maximum
+ */
+function normalizeByMax(scores: number[]): number[] {
+  const max = Math.max(0, ...scores);
+  return max > 0 ? scores.map((score) => score / max) : scores.map(() => 0);
+}
@@ -0,0 +1,102 @@
+/**
+ * Cohere/Jina-Style Rerank Provider
+ * Any endpoint implementing POST /rerank with { query, documents, top_n }
+ * (Cohere, Jina, TEI, Infinity, vLLM)
+ */
+
+import { joinUrl, postJson } from "./http-client.js";
+import type {
+  RerankCallOptions,
+  RerankOutput,
+  RerankProvider,
+} from "./types.js";
+
+interface CohereRerankPayload {
+  model: string;
+  query: string;
+  documents: string[];
+  top_n: number;
+  return_documents: false;
+}
+
+interface CohereRerankResponse {
+  results: Array<{
+    index: number;
+    relevance_score: number;
+  }>;
+  // Cohere reports tokens under meta, Jina and TEI-style gateways under usage
+  meta?: {
+    tokens?: {
+      input_tokens?: number;
+      output_tokens?: number;
+    };
+  };
+  usage?: {
+    total_tokens?: number;
+  };
+}
+
+export interface CohereRerankOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export class CohereRerankProvider implements RerankProvider {
+  readonly name: string;
+
+  constructor(private readonly options: CohereRerankOptions) {
+    this.name = `cohere:${options.model}`;
+  }
+
+  /**
+   * Rerank documents via POST {baseUrl}/rerank
+   */
+  async rerank(
+    query: string,
+    documents: string[],
+    topN: number,
+    { signal }: RerankCallOptions = {}
+  ): Promise<RerankOutput> {
+    const { baseUrl, model, apiKey } = this.options;
+
+    const payload: CohereRerankPayload = {
+      model,
+      query,
+      documents,
+      top_n: topN,
+      // Documents are mapped back by index, no need to transfer them twice
+      return_documents: false,
+    };
+
+    const response = await postJson<CohereRerankResponse>({
+      url: joinUrl(baseUrl, "/rerank"),
+      apiKey,
+      payload,
+      providerName: this.name,
+      operationName: "Document reranking",
+      signal,
+    });
+
+    if (!response.results || response.results.length === 0) {
+      throw new Error(`No reranking results received from ${this.name}`);
+    }
+
+    const tokens = response.meta?.tokens;
+    const inputTokens = tokens?.input_tokens ?? response.usage?.total_tokens;
+
+    return {
+      documents: response.results
+        .filter((item) => documents[item.index] !== undefined)
+        .map((item) => ({
+          content: documents[item.index],
+          originalIndex: item.index,
+          relevanceScore: item.relevance_score,
+        })),
+      usage:
+        inputTokens !== undefined
+          ? { inputTokens, outputTokens: tokens?.output_tokens ?? 0 }
+          : undefined,
+    };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Provider HTTP Client
+ * JSON POST helper shared by the self-hosted and third-party HTTP providers
+ */
+
+import { logger } from "../../utils/logger.js";
+import { SILICONFLOW_CONFIG } from "../siliconflow-config.js";
+
+export interface ProviderRequest {
+  url: string;
+  apiKey?: string;
+  payload: unknown;
+  // Label used in error messages and completion logs, e.g. "openai:bge-m3"
+  providerName: string;
+  operationName: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * POST a JSON payload and parse the JSON response
+ */
+export async function postJson<TResponse>(
+  request: ProviderRequest
+): Promise<TResponse> {
+  const { url, apiKey, payload, providerName, operationName, signal } = request;
+  const startTime = Date.now();
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": SILICONFLOW_CONFIG.USER_AGENT,
+  };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(payload),
+    signal: withTimeout(signal),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Unknown error");
+    throw new Error(
+      `${providerName} API error ${response.status}: ${errorText}`
+    );
+  }
+
+  const result = (await response.json()) as TResponse;
+
+  const duration = Date.now() - startTime;
+  logger.info(
+    `${operationName} completed (provider: ${providerName}, ${(duration / 1000).toFixed(1)}s)`
+  );
+
+  return result;
+}
+
+/**
+ * Combine a caller's abort signal with the request timeout
+ */
+export function withTimeout(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(SILICONFLOW_CONFIG.TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Join a base URL and endpoint path without doubling slashes
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
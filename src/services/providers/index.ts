@@ -0,0 +1,189 @@
+/**
+ * Inference Provider Factory
+ * Resolves embedding and reranking backends from Worker configuration
+ */
+
+import type { WorkerEnv } from "../../types/index.js";
+import { CohereRerankProvider } from "./cohere-rerank.js";
+import { OpenAICompatibleEmbeddingProvider } from "./openai-compatible.js";
+import {
+  SiliconFlowEmbeddingProvider,
+  SiliconFlowRerankProvider,
+} from "./siliconflow.js";
+import type {
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  EmbeddingProviderName,
+  RerankProvider,
+  RerankProviderConfig,
+  RerankProviderName,
+} from "./types.js";
+import {
+  WorkersAIEmbeddingProvider,
+  WorkersAIRerankProvider,
+} from "./workers-ai.js";
+
+export type {
+  EmbeddingOutput,
+  EmbeddingProvider,
+  EmbeddingProviderConfig,
+  ProviderUsage,
+  RankedDocument,
+  RerankCallOptions,
+  RerankOutput,
+  RerankProvider,
+  RerankProviderConfig,
+} from "./types.js";
+
+const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = [
+  "siliconflow",
+  "openai",
+  "workers-ai",
+];
+
+const RERANK_PROVIDERS: RerankProviderName[] = [
+  "siliconflow",
+  "cohere",
+  "workers-ai",
+];
+
+const DEFAULT_WORKERS_AI_RERANK_MODEL = "@cf/baai/bge-reranker-base";
+
+export interface ProviderBindings {
+  // D1 database holding SiliconFlow API keys
+  db: D1Database;
+  // Workers AI binding, required by the "workers-ai" providers
+  ai?: Ai;
+}
+
+/**
+ * Read embedding provider configuration from Worker environment
+ */
+export function resolveEmbeddingConfig(
+  env: WorkerEnv
+): EmbeddingProviderConfig {
+  const provider = (env.EMBEDDING_PROVIDER ||
+    "siliconflow") as EmbeddingProviderName;
+  if (!EMBEDDING_PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unsupported EMBEDDING_PROVIDER: ${provider}. Supported values: ${EMBEDDING_PROVIDERS.join(", ")}`
+    );
+  }
+
+  const dimensions = env.EMBEDDING_DIMENSIONS
+    ? parseInt(env.EMBEDDING_DIMENSIONS, 10)
+    : undefined;
+  if (dimensions !== undefined && !(dimensions > 0)) {
+    throw new Error(
+      `Invalid EMBEDDING_DIMENSIONS: ${env.EMBEDDING_DIMENSIONS}`
+    );
+  }
+
+  return {
+    provider,
+    baseUrl: env.EMBEDDING_BASE_URL || undefined,
+    apiKey: env.EMBEDDING_API_KEY || undefined,
+    model: env.EMBEDDING_MODEL || undefined,
+    dimensions,
+  };
+}
+
+/**
+ * Read reranker provider configuration from Worker environment
+ */
+export function resolveRerankConfig(env: WorkerEnv): RerankProviderConfig {
+  const provider = (env.RERANKER_PROVIDER ||
+    "siliconflow") as RerankProviderName;
+  if (!RERANK_PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unsupported RERANKER_PROVIDER: ${provider}. Supported values: ${RERANK_PROVIDERS.join(", ")}`
+    );
+  }
+
+  return {
+    provider,
+    baseUrl: env.RERANKER_BASE_URL || undefined,
+    apiKey: env.RERANKER_API_KEY || undefined,
+    model: env.RERANKER_MODEL || undefined,
+  };
+}
+
+/**
+ * Create the configured embedding provider
+ */
+export function createEmbeddingProvider(
+  config: EmbeddingProviderConfig,
+  bindings: ProviderBindings
+): EmbeddingProvider {
+  switch (config.provider) {
+    case "siliconflow":
+      return new SiliconFlowEmbeddingProvider(bindings.db);
+
+    case "openai":
+      // No default model: query vectors must come from the model that embedded the corpus
+      return new OpenAICompatibleEmbeddingProvider({
+        baseUrl: requireSetting(config.baseUrl, "EMBEDDING_BASE_URL", "openai"),
+        model: requireSetting(config.model, "EMBEDDING_MODEL", "openai"),
+        apiKey: config.apiKey,
+        dimensions: config.dimensions,
+      });
+
+    case "workers-ai":
+      return new WorkersAIEmbeddingProvider(
+        requireAiBinding(bindings.ai),
+        requireSetting(config.model, "EMBEDDING_MODEL", "workers-ai")
+      );
+  }
+}
+
+/**
+ * Create the configured rerank provider
+ */
+export function createRerankProvider(
+  config: RerankProviderConfig,
+  bindings: ProviderBindings
+): RerankProvider {
+  switch (config.provider) {
+    case "siliconflow":
+      return new SiliconFlowRerankProvider(bindings.db);
+
+    case "cohere":
+      return new CohereRerankProvider({
+        baseUrl: requireSetting(config.baseUrl, "RERANKER_BASE_URL", "cohere"),
+        model: requireSetting(config.model, "RERANKER_MODEL", "cohere"),
+        apiKey: config.apiKey,
+      });
+
+    case "workers-ai":
+      return new WorkersAIRerankProvider(
+        requireAiBinding(bindings.ai),
+        config.model || DEFAULT_WORKERS_AI_RERANK_MODEL
+      );
+  }
+}
+
+/**
+ * Ensure a provider setting is configured
+ */
+function requireSetting(
+  value: string | undefined,
+  name: string,
+  provider: string
+): string {
+  if (!value) {
+    throw new Error(`${name} is required for the ${provider} provider`);
+  }
+  return value;
+}
+
+/**
+ * Ensure the Workers AI binding is configured
+ */
+function requireAiBinding(ai: Ai | undefined): Ai {
+  if (!ai) {
+    throw new Error(
+      'Workers AI binding "AI" is required for the workers-ai provider'
+    );
+  }
+  return ai;
+}
@@ -0,0 +1,77 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ * Any endpoint implementing POST /embeddings (vLLM, TEI, LiteLLM, Ollama, OpenAI)
+ */
+
+import { joinUrl, postJson } from "./http-client.js";
+import type { EmbeddingOutput, EmbeddingProvider } from "./types.js";
+
+interface OpenAIEmbeddingPayload {
+  model: string;
+  input: string;
+  encoding_format: "float";
+  dimensions?: number;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{
+    embedding: number[];
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
+export interface OpenAICompatibleEmbeddingOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  dimensions?: number;
+}
+
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(private readonly options: OpenAICompatibleEmbeddingOptions) {
+    // Dimensions are part of the name so cached vectors never mix sizes
+    this.name = options.dimensions
+      ? `openai:${options.model}:${options.dimensions}d`
+      : `openai:${options.model}`;
+  }
+
+  /**
+   * Create raw embedding via POST {baseUrl}/embeddings
+   */
+  async embed(text: string): Promise<EmbeddingOutput> {
+    const { baseUrl, model, apiKey, dimensions } = this.options;
+
+    const payload: OpenAIEmbeddingPayload = {
+      model,
+      input: text,
+      encoding_format: "float",
+      dimensions,
+    };
+
+    const response = await postJson<OpenAIEmbeddingResponse>({
+      url: joinUrl(baseUrl, "/embeddings"),
+      apiKey,
+      payload,
+      providerName: this.name,
+      operationName: "Embedding generation",
+    });
+
+    const embedding = response.data?.[0]?.embedding;
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new Error(`No embedding data received from ${this.name}`);
+    }
+
+    return {
+      embedding,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * SiliconFlow Providers
+ * Embedding and reranking through the SiliconFlow API with multi-key failover
+ */
+
+import { SiliconFlowService } from "../siliconflow-base.js";
+import { SILICONFLOW_CONFIG } from "../siliconflow-config.js";
+import type {
+  EmbeddingOutput,
+  EmbeddingProvider,
+  ProviderUsage,
+  RankedDocument,
+  RerankCallOptions,
+  RerankOutput,
+  RerankProvider,
+} from "./types.js";
+
+interface EmbeddingInput {
+  text: string;
+}
+
+interface EmbeddingPayload {
+  model: "Qwen/Qwen3-Embedding-4B";
+  input: string;
+  encoding_format: "float";
+}
+
+interface EmbeddingResponse {
+  data: Array<{
+    embedding: number[];
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens?: number;
+    total_tokens: number;
+  };
+}
+
+interface ProcessedEmbedding {
+  embedding: number[];
+  usage?: Omit<ProviderUsage, "keyId">;
+}
+
+interface RerankerInput {
+  query: string;
+  documents: string[];
+  topN: number;
+}
+
+interface RerankerPayload {
+  model: "Qwen/Qwen3-Reranker-8B";
+  query: string;
+  documents: string[];
+  instruction: "Please rerank the documents based on the query.";
+  top_n: number;
+  return_documents: true;
+}
+
+interface RerankerResult {
+  document: {
+    text: string;
+  };
+  index: number;
+  relevance_score: number;
+}
+
+interface RerankerResponse {
+  id: string;
+  results: RerankerResult[];
+  tokens: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+interface ProcessedRerank {
+  documents: RankedDocument[];
+  usage?: Omit<ProviderUsage, "keyId">;
+}
+
+export class SiliconFlowEmbeddingProvider
+  extends SiliconFlowService<
+    EmbeddingInput,
+    EmbeddingResponse,
+    ProcessedEmbedding
+  >
+  implements EmbeddingProvider
+{
+  readonly name = `siliconflow:${SILICONFLOW_CONFIG.EMBEDDING_MODEL}`;
+  protected readonly endpoint = "/embeddings";
+
+  /**
+   * Create raw embedding with multi-key failover
+   */
+  async embed(text: string): Promise<EmbeddingOutput> {
+    const { result, keyId } = await this.callWithFailover(
+      { text },
+      "Embedding generation"
+    );
+
+    return {
+      embedding: result.embedding,
+      usage: result.usage && { ...result.usage, keyId: String(keyId) },
+    };
+  }
+
+  /**
+   * Build API payload from request
+   */
+  protected buildPayload(input: EmbeddingInput): EmbeddingPayload {
+    return {
+      model: SILICONFLOW_CONFIG.EMBEDDING_MODEL,
+      input: input.text,
+      encoding_format: "float",
+    };
+  }
+
+  /**
+   * Extract embedding and token usage from API response
+   */
+  protected processResponse(response: EmbeddingResponse): ProcessedEmbedding {
+    const embedding = response.data?.[0]?.embedding;
+
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new Error("No embedding data received from SiliconFlow API");
+    }
+
+    return {
+      embedding,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens ?? 0,
+      },
+    };
+  }
+}
+
+export class SiliconFlowRerankProvider
+  extends SiliconFlowService<RerankerInput, RerankerResponse, ProcessedRerank>
+  implements RerankProvider
+{
+  readonly name = `siliconflow:${SILICONFLOW_CONFIG.RERANKER_MODEL}`;
+  protected readonly endpoint = "/rerank";
+
+  /**
+   * Rerank documents with multi-key failover
+   */
+  async rerank(
+    query: string,
+    documents: string[],
+    topN: number,
+    { signal, excludeKeyIds = [], onKeyClaimed }: RerankCallOptions = {}
+  ): Promise<RerankOutput> {
+    const { result, keyId } = await this.callWithFailover(
+      { query, documents, topN },
+      "Document reranking",
+      {
+        signal,
+        excludeKeyIds: excludeKeyIds.map(Number),
+        onKeyClaimed: (id) => onKeyClaimed?.(String(id)),
+      }
+    );
+
+    return {
+      documents: result.documents,
+      usage: result.usage && { ...result.usage, keyId: String(keyId) },
+    };
+  }
+
+  /**
+   * Build API payload from input
+   */
+  protected buildPayload(input: RerankerInput): RerankerPayload {
+    return {
+      model: SILICONFLOW_CONFIG.RERANKER_MODEL,
+      query: input.query,
+      documents: input.documents,
+      instruction: SILICONFLOW_CONFIG.RERANKER_INSTRUCTION,
+      top_n: input.topN,
+      return_documents: true,
+    };
+  }
+
+  /**
+   * Process API response and return ranked documents with token usage
+   */
+  protected processResponse(response: RerankerResponse): ProcessedRerank {
+    if (!response.results || response.results.length === 0) {
+      throw new Error("No reranking results received from SiliconFlow API");
+    }
+
+    return {
+      documents: response.results.map((item) => ({
+        content: item.document.text,
+        originalIndex: item.index,
+        relevanceScore: item.relevance_score,
+      })),
+      usage: response.tokens && {
+        inputTokens: response.tokens.input_tokens,
+        outputTokens: response.tokens.output_tokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Inference Provider Contracts
+ * Common interfaces implemented by every embedding and reranking backend
+ */
+
+export type EmbeddingProviderName = "siliconflow" | "openai" | "workers-ai";
+
+export type RerankProviderName = "siliconflow" | "cohere" | "workers-ai";
+
+export interface RankedDocument {
+  content: string;
+  originalIndex: number;
+  relevanceScore: number;
+}
+
+// Token usage reported by the provider for a single call
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // API key the call was billed to, when the provider rotates keys
+  keyId?: string;
+}
+
+export interface EmbeddingOutput {
+  embedding: number[];
+  usage?: ProviderUsage;
+}
+
+export interface RerankOutput {
+  documents: RankedDocument[];
+  usage?: ProviderUsage;
+}
+
+export interface EmbeddingProvider {
+  // Provider identifier used in logs, e.g. "openai:bge-m3"
+  readonly name: string;
+  embed(text: string): Promise<EmbeddingOutput>;
+}
+
+export interface RerankCallOptions {
+  // Cancels hedged and over-budget calls
+  signal?: AbortSignal;
+  // API keys held by concurrent hedged calls, not to be used by this one
+  excludeKeyIds?: string[];
+  // Reports the API key as soon as the call has claimed it
+  onKeyClaimed?: (keyId: string) => void;
+}
+
+export interface RerankProvider {
+  readonly name: string;
+  rerank(
+    query: string,
+    documents: string[],
+    topN: number,
+    options?: RerankCallOptions
+  ): Promise<RerankOutput>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  // Requested output dimensions, must match the stored vectors
+  dimensions?: number;
+}
+
+export interface RerankProviderConfig {
+  provider: RerankProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
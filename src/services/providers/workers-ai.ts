@@ -0,0 +1,122 @@
+/**
+ * Cloudflare Workers AI Providers
+ * Embedding and reranking through the AI binding - no outbound API keys
+ */
+
+import { logger } from "../../utils/logger.js";
+import type {
+  EmbeddingOutput,
+  EmbeddingProvider,
+  RerankOutput,
+  RerankProvider,
+} from "./types.js";
+
+interface WorkersAIEmbeddingOutput {
+  shape?: number[];
+  data?: number[][];
+}
+
+interface WorkersAIRerankOutput {
+  response?: Array<{
+    id?: number;
+    score?: number;
+  }>;
+}
+
+// Model names come from configuration, so the binding's per-model typing can't apply
+type WorkersAIRun = <TOutput>(
+  model: string,
+  inputs: Record<string, unknown>
+) => Promise<TOutput>;
+
+export class WorkersAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly ai: Ai,
+    private readonly model: string
+  ) {
+    this.name = `workers-ai:${model}`;
+  }
+
+  /**
+   * Create raw embedding via the AI binding
+   */
+  async embed(text: string): Promise<EmbeddingOutput> {
+    const startTime = Date.now();
+    const run = this.ai.run.bind(this.ai) as unknown as WorkersAIRun;
+
+    const output = await run<WorkersAIEmbeddingOutput>(this.model, {
+      text: [text],
+    });
+
+    const embedding = output.data?.[0];
+    if (!embedding || !Array.isArray(embedding)) {
+      throw new Error(`No embedding data received from ${this.name}`);
+    }
+
+    logger.info(
+      `Embedding generation completed (provider: ${this.name}, ${((Date.now() - startTime) / 1000).toFixed(1)}s)`
+    );
+
+    // The AI binding doesn't report token usage
+    return { embedding };
+  }
+}
+
+export class WorkersAIRerankProvider implements RerankProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly ai: Ai,
+    private readonly model: string
+  ) {
+    this.name = `workers-ai:${model}`;
+  }
+
+  /**
+   * Rerank documents via the AI binding
+   *
+   * The binding can't be cancelled, so an aborted call is only abandoned.
+   */
+  async rerank(
+    query: string,
+    documents: string[],
+    topN: number
+  ): Promise<RerankOutput> {
+    const startTime = Date.now();
+    const run = this.ai.run.bind(this.ai) as unknown as WorkersAIRun;
+
+    const output = await run<WorkersAIRerankOutput>(this.model, {
+      query,
+      contexts: documents.map((text) => ({ text })),
+      top_k: topN,
+    });
+
+    const results = (output.response ?? []).filter(
+      (item): item is { id: number; score: number } =>
+        typeof item.id === "number" &&
+        typeof item.score === "number" &&
+        documents[item.id] !== undefined
+    );
+
+    if (results.length === 0) {
+      throw new Error(`No reranking results received from ${this.name}`);
+    }
+
+    logger.info(
+      `Document reranking completed (provider: ${this.name}, ${((Date.now() - startTime) / 1000).toFixed(1)}s)`
+    );
+
+    return {
+      documents: results
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topN)
+        .map((item) => ({
+          content: documents[item.id],
+          originalIndex: item.id,
+          relevanceScore: item.score,
+        })),
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { SearchTool } from "../mcp/tools/search-tool.js";
+import type { RAGQuery, RAGResult, Services } from "../types/index.js";
+import { planQuery } from "./query-planner.js";
+import { SEARCH_CONFIG } from "./search-config.js";
+
+const PASTED_ERROR = [
+  "ContentView.swift:14:9: error: cannot find 'NavigationLink' in scope",
+  "struct ContentView: View {",
+  '    var body: some View { NavigationLink("Detail") { DetailView() } }',
+  "}",
+  "Why is NavigationLink not found in my view?",
+  "Do I need to wrap it in a NavigationStack?",
+].join("\n");
+
+/**
+ * Run a query through the search tool and capture what reaches the RAG service
+ */
+async function captureRagQuery(query: string): Promise<RAGQuery> {
+  let captured: RAGQuery | undefined;
+  const services = {
+    rag: {
+      initialize: async () => {},
+      query: async (request: RAGQuery): Promise<RAGResult> => {
+        captured = request;
+        return {
+          success: true,
+          query: request.query,
+          results: [],
+          additionalUrls: [],
+          count: 0,
+          processing_time_ms: 0,
+        };
+      },
+    },
+    rateLimit: {
+      checkLimits: async () => ({
+        allowed: true,
+        limit: 100,
+        remaining: 99,
+        resetAt: new Date().toISOString(),
+        planType: "hobby",
+        limitType: "weekly",
+      }),
+    },
+    usage: { recordDaily: async () => {} },
+  } as unknown as Services;
+
+  await new SearchTool(services).handle(
+    1,
+    { query },
+    { isAuthenticated: false },
+    new Request("https://example.com/mcp")
+  );
+
+  if (!captured) throw new Error("Search tool did not query the RAG service");
+  return captured;
+}
+
+describe("planQuery through the search tool", () => {
+  it("splits a pasted compiler error despite query cleaning", async () => {
+    const ragQuery = await captureRagQuery(PASTED_ERROR);
+    const plan = planQuery(
+      ragQuery.query,
+      SEARCH_CONFIG.QUERY_PLANNER,
+      ragQuery.originalQuery
+    );
+
+    expect(plan.subQueries).toHaveLength(4);
+    expect(plan.subQueries.slice(0, 3).map((s) => s.semantic)).toEqual([
+      "Why is NavigationLink not found in my view?",
+      "Do I need to wrap it in a NavigationStack?",
+      "cannot find 'NavigationLink' in scope",
+    ]);
+    expect(plan.subQueries[3].keyword).toContain("NavigationLink");
+  });
+
+  it("passes a short question through as cleaned text", async () => {
+    const ragQuery = await captureRagQuery("SwiftUI List documentation");
+    const plan = planQuery(
+      ragQuery.query,
+      SEARCH_CONFIG.QUERY_PLANNER,
+      ragQuery.originalQuery
+    );
+
+    expect(plan.subQueries).toEqual([
+      { semantic: "SwiftUI List", keyword: "SwiftUI List" },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Query Planner
+ * Turns long, multi-part questions into focused sub-queries before retrieval
+ *
+ * - Short single questions pass through unchanged
+ * - Compiler diagnostics ("error: ...") and each question become semantic sub-queries
+ * - API symbols are gathered into one keyword sub-query (OR'd, since a pasted
+ *   error rarely contains every symbol on one page)
+ */
+
+import { extractApiSymbols } from "../utils/api-symbols.js";
+import { cleanQuerySafely } from "../utils/query-cleaner.js";
+import type { QueryPlannerConfig } from "./search-config.js";
+
+export interface SubQuery {
+  // Text embedded for vector search
+  semantic: string;
+  // Keyword search input (websearch syntax), null to skip keyword retrieval
+  keyword: string | null;
+}
+
+export interface QueryPlan {
+  subQueries: SubQuery[];
+  symbols: string[];
+  // Condensed query the reranker scores candidates against
+  rerankQuery: string;
+}
+
+// Swift/Clang/Xcode diagnostics, e.g. "ContentView.swift:12:5: error: cannot find 'foo' in scope"
+const DIAGNOSTIC_PATTERN = /\b(?:error|warning):\s*(.+)$/i;
+
+// Identifiers quoted in diagnostics, e.g. 'NavigationLink' or 'Binding<Bool>'
+const QUOTED_SYMBOL_PATTERN = /'([A-Za-z_@][A-Za-z0-9_.<>]*)'/g;
+
+// File names from diagnostic locations, e.g. ContentView.swift
+const SOURCE_FILE_PATTERN = /\.(?:swift|mm?|h|c|cpp)$/;
+
+// Lines that read as source code rather than prose
+const CODE_LINE_PATTERN =
+  /[{};]|->|^\s*(?:let|var|func|import|struct|class|enum|extension|protocol|return|if|guard|case|@\w+)\b|^\s*\/\//;
+
+/**
+ * Plan retrieval for a query. `query` is the cleaned search text; the query as
+ * written is split by line, since cleaning collapses newlines and drops code words
+ */
+export function planQuery(
+  query: string,
+  config: QueryPlannerConfig,
+  originalQuery: string = query
+): QueryPlan {
+  const questionCount = (originalQuery.match(/\?/g) ?? []).length;
+  if (
+    originalQuery.length <= config.SIMPLE_QUERY_MAX_CHARS &&
+    !originalQuery.trim().includes("\n") &&
+    questionCount <= 1
+  ) {
+    return {
+      subQueries: [{ semantic: query, keyword: query }],
+      symbols: extractApiSymbols(query),
+      rerankQuery: query,
+    };
+  }
+
+  const lines = originalQuery.split("\n").map((line) => line.trim());
+
+  const diagnostics = lines
+    .map((line) => line.match(DIAGNOSTIC_PATTERN)?.[1]?.trim())
+    .filter((message): message is string => Boolean(message));
+
+  const prose = lines
+    .filter(
+      (line) =>
+        line.length > 0 &&
+        !DIAGNOSTIC_PATTERN.test(line) &&
+        !CODE_LINE_PATTERN.test(line)
+    )
+    .join(" ");
+  const sentences = splitSentences(prose);
+  const questions = sentences.filter((sentence) => sentence.endsWith("?"));
+
+  const symbols = Array.from(
+    new Set([
+      ...diagnostics.flatMap((message) =>
+        Array.from(message.matchAll(QUOTED_SYMBOL_PATTERN), (m) => m[1])
+      ),
+      ...extractApiSymbols(originalQuery),
+    ])
+  )
+    .filter((symbol) => !SOURCE_FILE_PATTERN.test(symbol))
+    .slice(0, config.MAX_SYMBOLS);
+
+  // Questions first, then diagnostics; plain statements only when neither exists
+  const focusTexts = Array.from(
+    new Set(
+      [...questions, ...diagnostics].map((text) =>
+        truncate(cleanQuerySafely(text), config.MAX_SUB_QUERY_CHARS)
+      )
+    )
+  );
+  const semanticTexts =
+    focusTexts.length > 0
+      ? focusTexts
+      : sentences.map((text) =>
+          truncate(cleanQuerySafely(text), config.MAX_SUB_QUERY_CHARS)
+        );
+
+  const symbolSlots = symbols.length > 0 ? 1 : 0;
+  const subQueries: SubQuery[] = semanticTexts
+    .slice(0, config.MAX_SUB_QUERIES - symbolSlots)
+    .map((text) => ({ semantic: text, keyword: null }));
+
+  if (symbols.length > 0) {
+    subQueries.push({
+      semantic: symbols.join(" "),
+      keyword: symbols.join(" OR "),
+    });
+  } else if (subQueries.length > 0) {
+    // No symbols to anchor keyword search, fall back to the leading sub-query
+    subQueries[0].keyword = subQueries[0].semantic;
+  }
+
+  // Nothing recognizable (e.g. code only): search the query as a whole
+  if (subQueries.length === 0) {
+    const text = truncate(query, config.MAX_SUB_QUERY_CHARS);
+    subQueries.push({ semantic: text, keyword: text });
+  }
+
+  const rerankQuery = truncate(
+    focusTexts.length > 0
+      ? [...focusTexts, ...symbols].join("\n")
+      : subQueries.map((subQuery) => subQuery.semantic).join("\n"),
+    config.MAX_RERANK_QUERY_CHARS
+  );
+
+  return { subQueries, symbols, rerankQuery };
+}
+
+/**
+ * Split prose into sentences, keeping terminal punctuation.
+ * Only punctuation followed by whitespace ends a sentence, so URLSession.shared stays whole
+ */
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.?!])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0);
+}
+
+/**
+ * Cut text to a maximum length at a word boundary
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut;
+}
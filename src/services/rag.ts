@@ -8,11 +8,23 @@ import type {
   RAGQuery,
   RAGResult,
   SearchResult,
+  TokenUsageRecord,
 } from "../types/index.js";
 import { logger } from "../utils/logger.js";
+import { describeFilters } from "../utils/search-filters.js";
+import { buildBreadcrumb } from "../utils/url-processor.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
 import { DatabaseService } from "./database.js";
 import { EmbeddingService } from "./embedding.js";
+import { EmbeddingCache } from "./embedding-cache.js";
+import {
+  createEmbeddingProvider,
+  createRerankProvider,
+  type ProviderBindings,
+} from "./providers/index.js";
 import { RerankerService } from "./reranker.js";
+import { ResultCache } from "./result-cache.js";
+import { SEARCH_CONFIG } from "./search-config.js";
 import { type RankedSearchResult, SearchEngine } from "./search-engine.js";
 
 export class RAGService {
@@ -21,15 +33,25 @@ export class RAGService {
   private readonly reranker: RerankerService;
   private readonly searchEngine: SearchEngine;
 
-  constructor(config: AppConfig, db: D1Database) {
-    // Initialize all services immediately with D1 database
+  constructor(config: AppConfig, bindings: ProviderBindings) {
+    // Initialize all services immediately with the configured providers
     this.database = new DatabaseService(config);
-    this.embedding = new EmbeddingService(db);
-    this.reranker = new RerankerService(db);
+    const circuitBreaker = new CircuitBreaker(bindings.db);
+    this.embedding = new EmbeddingService(
+      createEmbeddingProvider(config.EMBEDDING, bindings),
+      new EmbeddingCache(bindings.db),
+      circuitBreaker
+    );
+    this.reranker = new RerankerService(
+      createRerankProvider(config.RERANKER, bindings),
+      circuitBreaker
+    );
     this.searchEngine = new SearchEngine(
       this.database,
       this.embedding,
-      this.reranker
+      this.reranker,
+      SEARCH_CONFIG.FUSION,
+      new ResultCache(bindings.db, this.database)
     );
   }
 
@@ -45,7 +67,21 @@ export class RAGService {
    */
   async query(request: RAGQuery): Promise<RAGResult> {
     const startTime = Date.now();
-    const { query, result_count = 4 } = request;
+    const {
+      query,
+      originalQuery,
+      result_count = 4,
+      offset = 0,
+      filters,
+      onProgress,
+      bypassCache,
+      deadline,
+      diversity,
+      contextChunks,
+      minScore,
+      excludeUrls,
+      tracer,
+    } = request;
 
     // No started log - only completion with timing
 
@@ -75,9 +111,22 @@ export class RAGService {
 
       // Execute search
       const resultCount = Math.min(Math.max(result_count, 1), 20);
+      const usage: TokenUsageRecord[] = [];
 
       const searchResult = await this.searchEngine.search(trimmedQuery, {
+        originalQuery,
         resultCount,
+        offset,
+        filters,
+        onProgress,
+        onUsage: (record) => usage.push(record),
+        bypassCache,
+        deadline,
+        diversity,
+        contextChunks,
+        minScore,
+        excludeUrls,
+        tracer,
       });
 
       // Format results
@@ -86,7 +135,7 @@ export class RAGService {
 
       // Log completion with timing
       logger.info(
-        `RAG query completed (${(totalTime / 1000).toFixed(1)}s) - results: ${formattedResults.length}, query: ${query.substring(0, 50)}`
+        `RAG query completed (${(totalTime / 1000).toFixed(1)}s) - results: ${formattedResults.length}, filters: ${describeFilters(filters)}, query: ${query.substring(0, 50)}`
       );
 
       return {
@@ -96,6 +145,11 @@ export class RAGService {
         additionalUrls: searchResult.additionalUrls,
         count: formattedResults.length,
         processing_time_ms: totalTime,
+        usage,
+        belowMinScore: searchResult.belowMinScore,
+        trace: tracer?.toReport(),
+        offset,
+        hasMore: searchResult.hasMore,
       };
     } catch (error) {
       logger.error(
@@ -125,6 +179,12 @@ export class RAGService {
       chunk_index: result.chunk_index,
       total_chunks: result.total_chunks,
       mergedChunkIndices: result.mergedChunkIndices,
+      relevanceScore: result.relevanceScore,
+      breadcrumb: buildBreadcrumb(result.url) ?? undefined,
+      vectorDistance: result.vectorDistance,
+      keywordScore: result.keywordScore,
+      keywordRank: result.keywordRank,
+      sources: result.sources,
     }));
   }
 
@@ -32,10 +32,12 @@ export class RateLimitService {
 
   /**
    * Check rate limits for a user
+   * pendingRequests counts in-flight requests not yet logged (e.g. earlier batch elements)
    */
   async checkLimits(
     clientIP: string,
-    authContext: AuthContext
+    authContext: AuthContext,
+    pendingRequests: number = 0
   ): Promise<RateLimitResult> {
     try {
       // Get user identifier and plan type (handles all auth types)
@@ -48,10 +50,12 @@ export class RateLimitService {
       const limits = this.getPlanLimits(planType);
 
       // Check weekly and minute limits in parallel
-      const [weeklyUsage, minuteUsage] = await Promise.all([
+      const [loggedWeeklyUsage, loggedMinuteUsage] = await Promise.all([
         this.getWeeklyUsage(identifier),
         this.getMinuteUsage(identifier),
       ]);
+      const weeklyUsage = loggedWeeklyUsage + pendingRequests;
+      const minuteUsage = loggedMinuteUsage + pendingRequests;
 
       // Determine if request is allowed
       const weeklyAllowed =
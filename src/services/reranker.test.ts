@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type {
+  RerankCallOptions,
+  RerankOutput,
+  RerankProvider,
+} from "./providers/index.js";
+import { RerankerService } from "./reranker.js";
+import { SEARCH_CONFIG } from "./search-config.js";
+
+/**
+ * Provider rotating over two keys; the first call hangs until cancelled so the
+ * hedge is sent, the second answers right away
+ */
+function createHangingFirstProvider(keyIds: string[]): RerankProvider {
+  let calls = 0;
+
+  return {
+    name: "test-reranker",
+    rerank(
+      _query: string,
+      documents: string[],
+      _topN: number,
+      { signal, excludeKeyIds = [], onKeyClaimed }: RerankCallOptions = {}
+    ): Promise<RerankOutput> {
+      const keyId = ["1", "2"].find((id) => !excludeKeyIds.includes(id));
+      if (!keyId) return Promise.reject(new Error("No API keys available"));
+      keyIds.push(keyId);
+      onKeyClaimed?.(keyId);
+
+      if (calls++ === 0) {
+        return new Promise((_, reject) =>
+          signal?.addEventListener("abort", () => reject(signal.reason))
+        );
+      }
+      return Promise.resolve({
+        documents: documents.map((content, index) => ({
+          content,
+          originalIndex: index,
+          relevanceScore: 1 - index / documents.length,
+        })),
+        usage: { inputTokens: 10, outputTokens: 0, keyId },
+      });
+    },
+  };
+}
+
+describe("RerankerService hedging", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the hedged request with a different key than the primary", async () => {
+    vi.useFakeTimers();
+    const keyIds: string[] = [];
+    const reranker = new RerankerService(createHangingFirstProvider(keyIds));
+
+    const ranked = reranker.rerank("query", ["first", "second"], 2);
+    await vi.advanceTimersByTimeAsync(
+      SEARCH_CONFIG.RERANK_HEDGE.DEFAULT_DELAY_MS
+    );
+
+    await expect(ranked).resolves.toHaveLength(2);
+    expect(keyIds).toEqual(["1", "2"]);
+  });
+});
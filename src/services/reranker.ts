@@ -1,65 +1,59 @@
 /**
- * Modern SiliconFlow Reranker Service - MCP Optimized
- * High-performance document reranking with unified multi-key failover
+ * Modern Reranker Service - MCP Optimized
+ * Provider-agnostic document reranking with hedged, budgeted requests
  */
 
+import type { UsageCallback } from "../types/index.js";
 import { logger } from "../utils/logger.js";
-import { SiliconFlowService } from "./siliconflow-base.js";
-import { SILICONFLOW_CONFIG } from "./siliconflow-config.js";
-
-interface RerankerInput {
-  query: string;
-  documents: string[];
-  topN: number;
+import type { CircuitBreaker } from "./circuit-breaker.js";
+import { LatencyTracker } from "./latency-tracker.js";
+import type {
+  RankedDocument,
+  RerankOutput,
+  RerankProvider,
+} from "./providers/index.js";
+import { SEARCH_CONFIG } from "./search-config.js";
+
+export type { RankedDocument } from "./providers/index.js";
+
+export interface RerankOptions {
+  onUsage?: UsageCallback;
+  // Epoch ms after which the rerank is abandoned
+  deadline?: number;
 }
 
-interface RerankerPayload {
-  model: "Qwen/Qwen3-Reranker-8B";
-  query: string;
-  documents: string[];
-  instruction: "Please rerank the documents based on the query.";
-  top_n: number;
-  return_documents: true;
-}
+// Per-isolate successful rerank latencies by provider, for the hedging delay
+const latencyTrackers = new Map<string, LatencyTracker>();
 
-export interface RerankerResult {
-  document: {
-    text: string;
-  };
-  index: number;
-  relevance_score: number;
+interface HedgedRerankOutput extends RerankOutput {
+  // Requests still in flight when another won; cancelled, but already billed
+  abandonedRequests: number;
 }
 
-export interface RerankerResponse {
-  id: string;
-  results: RerankerResult[];
-  tokens: {
-    input_tokens: number;
-    output_tokens: number;
-  };
-}
-
-export interface RankedDocument {
-  content: string;
-  originalIndex: number;
-  relevanceScore: number;
-}
+export class RerankerService {
+  constructor(
+    private readonly provider: RerankProvider,
+    private readonly circuitBreaker?: CircuitBreaker
+  ) {}
 
-export class RerankerService extends SiliconFlowService<
-  RerankerInput,
-  RerankerResponse,
-  RankedDocument[]
-> {
-  protected readonly endpoint = "/rerank";
+  /**
+   * Name of the underlying rerank provider
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
 
   /**
-   * Rerank documents based on query relevance with multi-key failover
+   * Rerank documents based on query relevance through the configured provider
    */
   async rerank(
     query: string,
     documents: string[],
-    topN: number
+    topN: number,
+    options: RerankOptions = {}
   ): Promise<RankedDocument[]> {
+    const { onUsage, deadline } = options;
+
     if (!query?.trim()) {
       throw new Error("Query cannot be empty for reranking");
     }
@@ -74,42 +68,154 @@ export class RerankerService extends SiliconFlowService<
       throw new Error("top_n must be greater than 0");
     }
 
-    const input: RerankerInput = {
-      query: query.trim(),
-      documents,
-      topN: validTopN,
-    };
+    // An exhausted budget says nothing about provider health, so it is
+    // checked before the circuit breaker sees the call
+    if (deadline !== undefined && deadline <= Date.now()) {
+      throw new Error("Rerank latency budget exhausted before start");
+    }
+
+    // Fail fast while the provider is known down so search falls back to fused order
+    const trimmedQuery = query.trim();
+    const {
+      documents: rankedDocuments,
+      usage,
+      abandonedRequests,
+    } = this.circuitBreaker
+      ? await this.circuitBreaker.execute(`rerank:${this.provider.name}`, () =>
+          this.hedgedRerank(trimmedQuery, documents, validTopN, deadline)
+        )
+      : await this.hedgedRerank(trimmedQuery, documents, validTopN, deadline);
+
+    onUsage?.({
+      provider: this.provider.name,
+      operation: "rerank",
+      keyId: usage?.keyId ?? null,
+      inputTokens: usage?.inputTokens ?? 0,
+      outputTokens: usage?.outputTokens ?? 0,
+    });
+    // Same query and documents, so a losing request bills what the winner did;
+    // its key is unknown since it never responded
+    for (let i = 0; i < abandonedRequests; i++) {
+      onUsage?.({
+        provider: this.provider.name,
+        operation: "rerank",
+        keyId: null,
+        inputTokens: usage?.inputTokens ?? 0,
+        outputTokens: usage?.outputTokens ?? 0,
+      });
+    }
 
-    return this.callWithFailover(input, "Document reranking");
+    return rankedDocuments;
   }
 
   /**
-   * Build API payload from input
+   * Send the rerank request, hedge a second one once the first is slower than
+   * the observed latency percentile, and give up when the deadline passes.
+   * The first successful response wins and all other requests are aborted.
+   * Each request avoids the API keys its siblings have claimed.
    */
-  protected buildPayload(input: RerankerInput): RerankerPayload {
-    return {
-      model: SILICONFLOW_CONFIG.RERANKER_MODEL,
-      query: input.query,
-      documents: input.documents,
-      instruction: SILICONFLOW_CONFIG.RERANKER_INSTRUCTION,
-      top_n: input.topN,
-      return_documents: true,
-    };
+  private async hedgedRerank(
+    query: string,
+    documents: string[],
+    topN: number,
+    deadline?: number
+  ): Promise<HedgedRerankOutput> {
+    const remainingMs =
+      deadline !== undefined
+        ? Math.max(deadline - Date.now(), 0)
+        : Number.POSITIVE_INFINITY;
+
+    const tracker = this.getLatencyTracker();
+    const hedgeDelay = this.getHedgeDelay(tracker);
+    const controllers: AbortController[] = [];
+    const claimedKeyIds: string[] = [];
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    try {
+      return await new Promise<HedgedRerankOutput>((resolve, reject) => {
+        let inFlight = 0;
+
+        const launch = (attempt: "primary" | "hedge") => {
+          const controller = new AbortController();
+          const attemptStart = Date.now();
+          controllers.push(controller);
+          inFlight++;
+
+          this.provider
+            .rerank(query, documents, topN, {
+              signal: controller.signal,
+              excludeKeyIds: [...claimedKeyIds],
+              onKeyClaimed: (keyId) => claimedKeyIds.push(keyId),
+            })
+            .then(
+              (output) => {
+                tracker.record(Date.now() - attemptStart);
+                if (attempt === "hedge") {
+                  logger.info(
+                    `Hedged rerank request won (provider: ${this.provider.name}, hedgeDelay: ${hedgeDelay}ms)`
+                  );
+                }
+                resolve({ ...output, abandonedRequests: inFlight - 1 });
+              },
+              (error) => {
+                // Reject once no request that could still succeed is left
+                inFlight--;
+                if (inFlight === 0) reject(error);
+              }
+            );
+        };
+
+        launch("primary");
+
+        if (hedgeDelay < remainingMs) {
+          timers.push(setTimeout(() => launch("hedge"), hedgeDelay));
+        }
+
+        if (Number.isFinite(remainingMs)) {
+          timers.push(
+            setTimeout(
+              () =>
+                reject(
+                  new Error(
+                    `Rerank latency budget exhausted (${Math.round(remainingMs)}ms)`
+                  )
+                ),
+              remainingMs
+            )
+          );
+        }
+      });
+    } finally {
+      for (const timer of timers) clearTimeout(timer);
+      for (const controller of controllers) {
+        controller.abort(new Error("Rerank request cancelled"));
+      }
+    }
   }
 
   /**
-   * Process API response and return ranked documents
+   * Latency tracker for this provider in the current isolate
    */
-  protected processResponse(response: RerankerResponse): RankedDocument[] {
-    if (!response.results || response.results.length === 0) {
-      throw new Error("No reranking results received from SiliconFlow API");
+  private getLatencyTracker(): LatencyTracker {
+    let tracker = latencyTrackers.get(this.provider.name);
+    if (!tracker) {
+      tracker = new LatencyTracker(SEARCH_CONFIG.RERANK_HEDGE.SAMPLE_WINDOW);
+      latencyTrackers.set(this.provider.name, tracker);
     }
+    return tracker;
+  }
 
-    return response.results.map((item) => ({
-      content: item.document.text,
-      originalIndex: item.index,
-      relevanceScore: item.relevance_score,
-    }));
+  /**
+   * Delay before hedging - observed latency percentile once enough samples exist
+   */
+  private getHedgeDelay(tracker: LatencyTracker): number {
+    const hedge = SEARCH_CONFIG.RERANK_HEDGE;
+    const observed =
+      tracker.size >= hedge.MIN_SAMPLES
+        ? tracker.percentile(hedge.PERCENTILE)
+        : null;
+
+    return Math.max(observed ?? hedge.DEFAULT_DELAY_MS, hedge.MIN_DELAY_MS);
   }
 
   /**
@@ -122,7 +228,7 @@ export class RerankerService extends SiliconFlowService<
       return testResult.length > 0;
     } catch (error) {
       logger.error(
-        `Reranker health check failed: ${error instanceof Error ? error.message : String(error)}`
+        `Reranker health check failed (provider: ${this.provider.name}): ${error instanceof Error ? error.message : String(error)}`
       );
       return false;
     }
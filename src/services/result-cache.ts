@@ -0,0 +1,179 @@
+/**
+ * Search Result Cache Service
+ * D1-backed cache of complete search results stamped with the corpus version
+ *
+ * Entries are only valid for the corpus version they were computed against,
+ * so re-ingesting the document set invalidates the whole cache automatically.
+ * Without a readable corpus version the cache is bypassed.
+ */
+
+import { sha256Hex } from "../utils/hash.js";
+import { logger } from "../utils/logger.js";
+import type { DatabaseService } from "./database.js";
+
+export const RESULT_CACHE_CONFIG = {
+  TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
+  // How long an isolate trusts the corpus version before re-reading it
+  CORPUS_VERSION_TTL_MS: 60 * 1000,
+  MAX_ENTRIES: 5000,
+  PRUNE_PROBABILITY: 0.02,
+  // Bump when the grouping or shape of cached results changes
+  FORMAT_VERSION: 4,
+} as const;
+
+// Per-isolate corpus version, shared across requests
+let corpusVersionCache: { value: string | null; expiresAt: number } | null =
+  null;
+
+export class ResultCache {
+  constructor(
+    private readonly d1: D1Database,
+    private readonly database: DatabaseService
+  ) {}
+
+  /**
+   * Current corpus version, or null when unavailable
+   */
+  async getCorpusVersion(): Promise<string | null> {
+    if (corpusVersionCache && corpusVersionCache.expiresAt > Date.now()) {
+      return corpusVersionCache.value;
+    }
+
+    let value: string | null = null;
+    let failure = "no corpus_version row";
+    try {
+      value = await this.database.getCorpusVersion();
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    // Log once when the cache becomes unavailable, not on every re-check
+    if (value === null && corpusVersionCache?.value !== null) {
+      logger.warn(
+        `Corpus version unavailable, bypassing result cache: ${failure}`
+      );
+    }
+
+    corpusVersionCache = {
+      value,
+      expiresAt: Date.now() + RESULT_CACHE_CONFIG.CORPUS_VERSION_TTL_MS,
+    };
+    return value;
+  }
+
+  /**
+   * Build cache key from every input that affects the result
+   */
+  async buildKey(
+    corpusVersion: string,
+    parameters: Record<string, unknown>
+  ): Promise<string> {
+    return sha256Hex(
+      JSON.stringify({
+        formatVersion: RESULT_CACHE_CONFIG.FORMAT_VERSION,
+        corpusVersion,
+        ...parameters,
+      })
+    );
+  }
+
+  /**
+   * Get a cached result, or null on miss, expiry or cache failure
+   */
+  async get<T>(cacheKey: string, corpusVersion: string): Promise<T | null> {
+    try {
+      const row = await this.d1
+        .prepare(
+          "SELECT result, created_at FROM search_result_cache WHERE cache_key = ? AND corpus_version = ?"
+        )
+        .bind(cacheKey, corpusVersion)
+        .first();
+
+      if (
+        !row ||
+        Date.now() - new Date(row.created_at as string).getTime() >
+          RESULT_CACHE_CONFIG.TTL_MS
+      ) {
+        return null;
+      }
+
+      await this.d1
+        .prepare(
+          "UPDATE search_result_cache SET hit_count = hit_count + 1 WHERE cache_key = ?"
+        )
+        .bind(cacheKey)
+        .run();
+
+      return JSON.parse(row.result as string) as T;
+    } catch (error) {
+      logger.warn(
+        `Result cache read failed (key: ${cacheKey.substring(0, 12)}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Store a result for the given corpus version
+   */
+  async set(
+    cacheKey: string,
+    corpusVersion: string,
+    result: unknown
+  ): Promise<void> {
+    try {
+      await this.d1
+        .prepare(
+          `INSERT OR REPLACE INTO search_result_cache
+           (cache_key, corpus_version, result, hit_count, created_at)
+           VALUES (?, ?, ?, 0, ?)`
+        )
+        .bind(
+          cacheKey,
+          corpusVersion,
+          JSON.stringify(result),
+          new Date().toISOString()
+        )
+        .run();
+
+      if (Math.random() < RESULT_CACHE_CONFIG.PRUNE_PROBABILITY) {
+        await this.prune(corpusVersion);
+      }
+    } catch (error) {
+      logger.warn(
+        `Result cache write failed (key: ${cacheKey.substring(0, 12)}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      // Cache failures must not fail the search
+    }
+  }
+
+  /**
+   * Delete stale-version, expired and excess entries
+   */
+  private async prune(corpusVersion: string): Promise<void> {
+    const cutoff = new Date(
+      Date.now() - RESULT_CACHE_CONFIG.TTL_MS
+    ).toISOString();
+
+    const [stale, excess] = await this.d1.batch([
+      this.d1
+        .prepare(
+          "DELETE FROM search_result_cache WHERE corpus_version != ? OR created_at < ?"
+        )
+        .bind(corpusVersion, cutoff),
+      this.d1
+        .prepare(
+          `DELETE FROM search_result_cache WHERE cache_key IN (
+             SELECT cache_key FROM search_result_cache
+             ORDER BY created_at DESC
+             LIMIT -1 OFFSET ?
+           )`
+        )
+        .bind(RESULT_CACHE_CONFIG.MAX_ENTRIES),
+    ]);
+
+    logger.info(
+      `Result cache pruned (stale: ${stale.meta.changes}, excess: ${excess.meta.changes})`
+    );
+  }
+}
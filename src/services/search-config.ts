@@ -0,0 +1,117 @@
+/**
+ * Search Pipeline Configuration
+ * Centralized tuning parameters for candidate retrieval and ranking
+ */
+
+export type FusionMethod = "rrf" | "linear";
+
+export interface FusionConfig {
+  readonly METHOD: FusionMethod;
+  // Reciprocal Rank Fusion damping constant
+  readonly RRF_K: number;
+  readonly SEMANTIC_WEIGHT: number;
+  readonly KEYWORD_WEIGHT: number;
+}
+
+export interface LocalRerankConfig {
+  readonly BM25_K1: number;
+  readonly BM25_B: number;
+  // Title BM25 multiplier relative to content
+  readonly TITLE_WEIGHT: number;
+  readonly LEXICAL_WEIGHT: number;
+  readonly SYMBOL_WEIGHT: number;
+  readonly COSINE_WEIGHT: number;
+}
+
+export interface QueryPlannerConfig {
+  // Single questions up to this length are searched as-is
+  readonly SIMPLE_QUERY_MAX_CHARS: number;
+  readonly MAX_SUB_QUERIES: number;
+  readonly MAX_SUB_QUERY_CHARS: number;
+  readonly MAX_SYMBOLS: number;
+  readonly MAX_RERANK_QUERY_CHARS: number;
+}
+
+export const SEARCH_CONFIG = {
+  // Decomposition of long, multi-part queries into sub-queries
+  QUERY_PLANNER: {
+    SIMPLE_QUERY_MAX_CHARS: 200,
+    MAX_SUB_QUERIES: 4,
+    MAX_SUB_QUERY_CHARS: 300,
+    MAX_SYMBOLS: 8,
+    MAX_RERANK_QUERY_CHARS: 1000,
+  },
+
+  // Candidate fusion (semantic + keyword)
+  FUSION: {
+    METHOD: "rrf" as FusionMethod,
+    RRF_K: 60,
+    SEMANTIC_WEIGHT: 1.0,
+    KEYWORD_WEIGHT: 1.0,
+  },
+
+  // Whole-search latency budget, after which results fall back to fused order
+  LATENCY_BUDGET: {
+    PLAN_BUDGET_MS: {
+      hobby: 10000,
+      pro: 6000,
+      enterprise: 6000,
+    } as Record<string, number>,
+    DEFAULT_BUDGET_MS: 10000,
+    // Skip reranking entirely when less than this remains
+    MIN_RERANK_MS: 500,
+  },
+
+  // Hedged rerank: a second request is sent once the first exceeds the
+  // observed latency percentile
+  RERANK_HEDGE: {
+    PERCENTILE: 0.95,
+    // Used until enough latencies have been observed in this isolate
+    DEFAULT_DELAY_MS: 2000,
+    MIN_DELAY_MS: 300,
+    MIN_SAMPLES: 20,
+    SAMPLE_WINDOW: 200,
+  },
+
+  // In-process fallback ranking when the remote reranker is unavailable
+  LOCAL_RERANK: {
+    BM25_K1: 1.2,
+    BM25_B: 0.75,
+    TITLE_WEIGHT: 2.0,
+    LEXICAL_WEIGHT: 0.4,
+    SYMBOL_WEIGHT: 0.2,
+    COSINE_WEIGHT: 0.4,
+  },
+
+  // Maximal Marginal Relevance over the reranked results
+  DIVERSITY: {
+    // Applied when the caller does not set one; 0 disables diversification
+    DEFAULT: 0,
+    // Reranked pool size per requested result
+    POOL_FACTOR: 3,
+  },
+
+  // Adjacent chunks merged into partial-document results
+  CONTEXT_EXPANSION: {
+    MAX_CHUNKS: 3,
+    // Characters of neighboring chunks added across all results, nearest first
+    CHARACTER_BUDGET: 24000,
+  },
+
+  // Cursor pagination over the ranked list
+  PAGINATION: {
+    // Deepest result reachable; every page re-ranks all earlier ones
+    MAX_DEPTH: 40,
+    CURSOR_TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
+  },
+} as const;
+
+/**
+ * Latency budget for a whole search on the given plan
+ */
+export function getLatencyBudgetMs(planType: string): number {
+  return (
+    SEARCH_CONFIG.LATENCY_BUDGET.PLAN_BUDGET_MS[planType] ??
+    SEARCH_CONFIG.LATENCY_BUDGET.DEFAULT_BUDGET_MS
+  );
+}
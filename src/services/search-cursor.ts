@@ -0,0 +1,105 @@
+/**
+ * Search Cursor Codec
+ * Opaque, HMAC-signed pagination cursors for the search tool
+ *
+ * Format: base64url(JSON state) + "." + base64url(HMAC-SHA256(state))
+ */
+
+import type { SearchFilters } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+import { SEARCH_CONFIG } from "./search-config.js";
+
+export interface SearchCursorState {
+  query: string;
+  filters?: SearchFilters;
+  resultCount: number;
+  // Results already returned on earlier pages
+  offset: number;
+  diversity?: number;
+  contextChunks?: number;
+  minScore?: number;
+  showScores?: boolean;
+  // URLs returned on earlier pages, excluded from later ones
+  seenUrls: string[];
+  // Epoch ms after which the cursor is rejected
+  expiresAt: number;
+}
+
+export class SearchCursorCodec {
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  constructor(private readonly secret: string) {}
+
+  /**
+   * Sign pagination state into an opaque cursor
+   */
+  async encode(state: Omit<SearchCursorState, "expiresAt">): Promise<string> {
+    const payload = toBase64Url(
+      new TextEncoder().encode(
+        JSON.stringify({
+          ...state,
+          expiresAt: Date.now() + SEARCH_CONFIG.PAGINATION.CURSOR_TTL_MS,
+        })
+      )
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await this.getKey(),
+      new TextEncoder().encode(payload)
+    );
+
+    return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Verify and decode a cursor, or null when it is malformed, tampered with or expired
+   */
+  async decode(cursor: string): Promise<SearchCursorState | null> {
+    const [payload, signature, ...rest] = cursor.split(".");
+    if (!payload || !signature || rest.length > 0) return null;
+
+    try {
+      const valid = await crypto.subtle.verify(
+        "HMAC",
+        await this.getKey(),
+        fromBase64Url(signature),
+        new TextEncoder().encode(payload)
+      );
+      if (!valid) return null;
+
+      const state = JSON.parse(
+        new TextDecoder().decode(fromBase64Url(payload))
+      ) as SearchCursorState;
+
+      return state.expiresAt > Date.now() ? state : null;
+    } catch (error) {
+      logger.warn(
+        `Search cursor decoding failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return null;
+    }
+  }
+
+  private getKey(): Promise<CryptoKey> {
+    this.keyPromise ??= crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(this.secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+    return this.keyPromise;
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -4,25 +4,49 @@
  * Advanced implementation combining Semantic Search for RAG with precise
  * Keyword Search and Hybrid Search, optimized for developer documentation retrieval.
  *
- * Pipeline: Query → [Vector (4N) + Technical Term (4N)] → Merge → Title Merge → AI Rerank → Results
+ * Pipeline: Query → Plan → [Vector (4N) + Technical Term (4N)] per sub-query → Rank Fusion → URL Merge → AI Rerank → MMR → Context Expansion → Results
  *
  * Features:
+ * - Long or multi-part queries planned into parallel sub-queries (questions,
+ *   compiler diagnostics, API symbols)
  * - 4N+4N hybrid candidate strategy
+ * - Reciprocal Rank Fusion (or score-normalized linear fusion) of both lists
  * - Semantic vector search with pgvector HNSW
  * - Technical term search with PostgreSQL 'simple' configuration
- * - Title-based content merging
+ * - URL-based content merging (titles are display only)
  * - AI reranking with Qwen3-Reranker-8B
+ * - Local BM25 + cosine ranking when the reranker is unavailable
+ * - Maximal Marginal Relevance diversification of the final results
+ * - Optional neighboring chunk expansion within a character budget
  */
 
 import type {
   AdditionalUrl,
+  ChunkRange,
+  ChunkSimilarity,
+  ProgressCallback,
+  SearchFilters,
   SearchOptions,
   SearchResult,
+  UsageCallback,
 } from "../types/index.js";
 import { logger } from "../utils/logger.js";
+import { describeFilters } from "../utils/search-filters.js";
 import type { DatabaseService } from "./database.js";
+import { selectByMMR } from "./diversification.js";
 import type { EmbeddingService } from "./embedding.js";
+import {
+  type FusedCandidate,
+  fuseCandidates,
+  type RankedList,
+  type RetrievalSource,
+} from "./fusion.js";
+import { localRerank } from "./local-reranker.js";
+import { planQuery } from "./query-planner.js";
 import type { RerankerService } from "./reranker.js";
+import type { ResultCache } from "./result-cache.js";
+import { type FusionConfig, SEARCH_CONFIG } from "./search-config.js";
+import type { SearchTracer } from "./search-trace.js";
 
 export interface ParsedChunk {
   content: string;
@@ -38,6 +62,15 @@ export interface ProcessedResult {
   chunk_index: number;
   total_chunks: number;
   mergedChunkIndices?: number[];
+  // Best fused score among the merged chunks
+  fusedScore: number;
+  ranks: Partial<Record<RetrievalSource, number>>;
+  // IDs of all merged chunks
+  chunkIds: string[];
+  // Smallest vector distance among the merged chunks, if known
+  vectorDistance?: number;
+  // Highest keyword score among the merged chunks, if known
+  keywordScore?: number;
 }
 
 export interface RankedSearchResult {
@@ -49,115 +82,657 @@ export interface RankedSearchResult {
   total_chunks: number;
   mergedChunkIndices?: number[];
   original_index: number;
+  relevanceScore?: number;
+  vectorDistance?: number;
+  keywordScore?: number;
+  keywordRank?: number;
+  sources: RetrievalSource[];
 }
 
 export interface SearchEngineResult {
   results: RankedSearchResult[];
   additionalUrls: AdditionalUrl[];
+  // Reranked results dropped by the minimum score cutoff
+  belowMinScore?: number;
+  // Ranked candidates remain beyond this page
+  hasMore?: boolean;
 }
 
+interface SemanticCandidates {
+  results: SearchResult[];
+  // Query embedding, null when embedding failed
+  queryEmbedding: number[] | null;
+  // Embedding or vector search failed, results are empty
+  failed: boolean;
+}
+
+interface KeywordCandidates {
+  results: SearchResult[];
+  // Keyword search failed, results are empty
+  failed: boolean;
+}
+
+interface HybridSearchResult extends SearchEngineResult {
+  // A retriever or the reranker fell back, results must not be cached
+  degraded: boolean;
+}
+
+// Progress stages reported to streaming clients
+const SEARCH_PROGRESS = {
+  TOTAL: 3,
+  EMBEDDING: 1,
+  CANDIDATES: 2,
+  RERANKING: 3,
+} as const;
+
 export class SearchEngine {
   constructor(
     private database: DatabaseService,
     private embedding: EmbeddingService,
-    private reranker: RerankerService
+    private reranker: RerankerService,
+    private fusionConfig: FusionConfig = SEARCH_CONFIG.FUSION,
+    private resultCache?: ResultCache
   ) {}
 
   /**
-   * Execute hybrid search optimized for Apple Developer Documentation
+   * Execute hybrid search optimized for Apple Developer Documentation,
+   * served from the result cache when an entry exists for the current corpus
    */
   async search(
     query: string,
     options: SearchOptions = {}
   ): Promise<SearchEngineResult> {
-    const { resultCount = 4 } = options;
-    return this.hybridSearchWithReranker(query, resultCount);
+    const { tracer } = options;
+    const corpusVersion =
+      this.resultCache && !options.bypassCache
+        ? await this.resultCache.getCorpusVersion()
+        : null;
+
+    if (!this.resultCache || !corpusVersion) {
+      tracer?.recordCache(
+        this.resultCache && options.bypassCache ? "bypassed" : "disabled"
+      );
+      const { results, additionalUrls, belowMinScore, hasMore } =
+        await this.hybridSearchWithReranker(query, options);
+      return { results, additionalUrls, belowMinScore, hasMore };
+    }
+
+    const cacheKey = await this.resultCache.buildKey(
+      corpusVersion,
+      this.buildCacheParameters(query, options)
+    );
+    const cached = await this.resultCache.get<SearchEngineResult>(
+      cacheKey,
+      corpusVersion
+    );
+
+    tracer?.recordCache(cached ? "hit" : "miss");
+
+    if (cached) {
+      logger.info(
+        `Result cache hit (key: ${cacheKey.substring(0, 12)}, corpus: ${corpusVersion})`
+      );
+      options.onProgress?.({
+        progress: SEARCH_PROGRESS.TOTAL,
+        total: SEARCH_PROGRESS.TOTAL,
+        message: "Served from result cache",
+      });
+      return cached;
+    }
+
+    const { results, additionalUrls, belowMinScore, hasMore, degraded } =
+      await this.hybridSearchWithReranker(query, options);
+
+    // Degraded results would otherwise be pinned until the corpus changes
+    if (!degraded) {
+      await this.resultCache.set(cacheKey, corpusVersion, {
+        results,
+        additionalUrls,
+        belowMinScore,
+        hasMore,
+      });
+    }
+
+    return { results, additionalUrls, belowMinScore, hasMore };
   }
 
   /**
-   * Hybrid search with 4N+4N candidate strategy
+   * Every input that affects search results, for the result cache key
+   */
+  private buildCacheParameters(
+    query: string,
+    options: SearchOptions
+  ): Record<string, unknown> {
+    const { resultCount = 4, offset = 0, filters } = options;
+
+    return {
+      query,
+      // Line structure of the written query shapes the plan
+      originalQuery: options.originalQuery ?? null,
+      resultCount,
+      offset,
+      diversity: this.resolveDiversity(options),
+      contextChunks: options.contextChunks ?? 0,
+      minScore: options.minScore ?? null,
+      excludeUrls: options.excludeUrls ?? [],
+      framework: filters?.framework ?? null,
+      platform: filters?.platform ?? null,
+      contentType: filters?.contentType ?? null,
+      urlPrefix: filters?.urlPrefix ?? null,
+      fusion: this.fusionConfig,
+      embedding: this.embedding.providerName,
+      reranker: this.reranker.providerName,
+    };
+  }
+
+  /**
+   * Hybrid search with 4N+4N candidate strategy, where N covers every page
+   * up to and including the requested one (offset + resultCount); results
+   * returned on earlier pages are excluded before ranking
    *
-   * 1. Parallel: Vector search (4N) + Technical term search (4N)
-   * 2. Merge and deduplicate by ID
-   * 3. Title-based content merging
-   * 4. AI reranking for optimal results
+   * 1. Query planning into sub-queries, then parallel vector search +
+   *    technical term search per sub-query (4N split across sub-queries)
+   * 2. Rank fusion and deduplication by ID
+   * 3. URL-based content merging
+   * 4. AI reranking for optimal results (local ranking as fallback),
+   *    with an optional minimum relevance score
+   * 5. MMR diversification of the reranked pool
+   * 6. Neighboring chunk expansion (when requested)
    */
   private async hybridSearchWithReranker(
     query: string,
-    resultCount: number
-  ): Promise<SearchEngineResult> {
-    // Step 1: Parallel candidate retrieval (4N each, no minimum limit)
-    const candidateCount = resultCount * 4;
-
-    const [semanticResults, keywordResults] = await Promise.all([
-      this.getSemanticCandidates(query, candidateCount),
-      this.getKeywordCandidates(query, candidateCount),
-    ]);
-
-    // Step 2: Merge and deduplicate candidates
-    const mergedCandidates = this.mergeCandidates(
-      semanticResults,
-      keywordResults
+    options: SearchOptions
+  ): Promise<HybridSearchResult> {
+    const {
+      resultCount = 4,
+      offset = 0,
+      filters,
+      onProgress,
+      onUsage,
+      deadline,
+      contextChunks = 0,
+      minScore,
+      excludeUrls = [],
+      tracer,
+    } = options;
+    const diversity = this.resolveDiversity(options);
+    // Retrieve enough for every page so far; the shown ones are dropped below
+    const depth = offset + resultCount;
+    // Rerank a larger pool for MMR to choose from
+    const poolSize =
+      diversity > 0
+        ? resultCount * SEARCH_CONFIG.DIVERSITY.POOL_FACTOR
+        : resultCount;
+
+    // Step 1: Plan sub-queries, then retrieve candidates for all in parallel
+    const plan = planQuery(
+      query,
+      SEARCH_CONFIG.QUERY_PLANNER,
+      options.originalQuery
+    );
+    tracer?.recordPlan(plan);
+    const candidateCount = depth * 4;
+    // Split the 4N budget, but every sub-query still fills a page on its own
+    const subQueryCount = Math.max(
+      Math.ceil(candidateCount / plan.subQueries.length),
+      depth
     );
 
-    // Step 3: Process results (title-based merging)
-    const processedResults = this.processResults(mergedCandidates);
+    const retrievals = await Promise.all(
+      plan.subQueries.map((subQuery, index) =>
+        Promise.all([
+          this.getSemanticCandidates(
+            subQuery.semantic,
+            subQueryCount,
+            filters,
+            index === 0 ? onProgress : undefined,
+            onUsage,
+            tracer,
+            index
+          ),
+          subQuery.keyword === null
+            ? Promise.resolve<KeywordCandidates>({ results: [], failed: false })
+            : this.getKeywordCandidates(
+                subQuery.keyword,
+                subQueryCount,
+                filters,
+                tracer,
+                index
+              ),
+        ])
+      )
+    );
+    // The leading sub-query carries the main question for local ranking
+    const queryEmbedding = retrievals[0][0].queryEmbedding;
+    const semanticCount = retrievals.reduce(
+      (sum, [semantic]) => sum + semantic.results.length,
+      0
+    );
+    const keywordCount = retrievals.reduce(
+      (sum, [, keyword]) => sum + keyword.results.length,
+      0
+    );
+    let degraded = retrievals.some(
+      ([semantic, keyword]) => semantic.failed || keyword.failed
+    );
+
+    // Step 2: Fuse and deduplicate candidates across all sub-queries
+    const fusionStart = Date.now();
+    const fusedCandidates = fuseCandidates(
+      retrievals.flatMap(([semantic, keyword]): RankedList[] => [
+        { source: "semantic", results: semantic.results },
+        { source: "keyword", results: keyword.results },
+      ]),
+      this.fusionConfig
+    );
+
+    // Step 3: Process results (URL-based merging), leaving out earlier pages
+    const shownUrls = new Set(excludeUrls);
+    const processedResults = this.processResults(fusedCandidates).filter(
+      (processed) => !shownUrls.has(processed.url)
+    );
+    tracer?.recordStage("fusion_and_merge", fusionStart);
+    tracer?.recordMergeGroups(processedResults);
+
+    onProgress?.({
+      progress: SEARCH_PROGRESS.CANDIDATES,
+      total: SEARCH_PROGRESS.TOTAL,
+      message: `Retrieved ${processedResults.length} candidates (sub-queries: ${plan.subQueries.length}, semantic: ${semanticCount}, keyword: ${keywordCount})`,
+    });
+
+    // Nothing to rerank; an empty result is an answer, not a reranker failure
+    if (processedResults.length === 0) {
+      return {
+        results: [],
+        additionalUrls: [],
+        hasMore: false,
+        degraded,
+      };
+    }
 
     // Step 4: AI reranking with fallback mechanism
     let finalResults: RankedSearchResult[];
+    let belowMinScore: number | undefined;
+    let scoreCutoff: number | undefined;
+    const rerankStart = Date.now();
 
     try {
+      if (
+        deadline !== undefined &&
+        deadline - Date.now() < SEARCH_CONFIG.LATENCY_BUDGET.MIN_RERANK_MS
+      ) {
+        throw new Error("Latency budget exhausted before reranking");
+      }
+
       const rankedDocuments = await this.reranker.rerank(
-        query,
+        plan.rerankQuery,
         processedResults.map((r) => r.content),
-        Math.min(resultCount, processedResults.length)
+        Math.min(poolSize, processedResults.length),
+        { onUsage, deadline }
+      );
+      tracer?.recordStage("rerank", rerankStart);
+      tracer?.recordRerank(
+        "remote",
+        rankedDocuments,
+        processedResults,
+        this.reranker.providerName
       );
 
       // Step 5: Map back to final results
-      finalResults = rankedDocuments.map((doc) => {
-        const processed = processedResults[doc.originalIndex];
-        return {
-          id: processed.id,
-          url: processed.url,
-          title: processed.title,
-          content: processed.content,
-          chunk_index: processed.chunk_index,
-          total_chunks: processed.total_chunks,
-          mergedChunkIndices: processed.mergedChunkIndices,
-          original_index: doc.originalIndex,
-        };
+      finalResults = rankedDocuments.map((doc) =>
+        this.toRankedResult(
+          processedResults[doc.originalIndex],
+          doc.originalIndex,
+          doc.relevanceScore
+        )
+      );
+
+      // Only reranker scores are comparable to min_score
+      scoreCutoff = minScore;
+
+      onProgress?.({
+        progress: SEARCH_PROGRESS.RERANKING,
+        total: SEARCH_PROGRESS.TOTAL,
+        message: "Reranking completed",
       });
     } catch (error) {
       logger.error(
-        `Reranking failed, falling back to original order (query_length: ${query.length}, candidates: ${processedResults.length}): ${error instanceof Error ? error.message : String(error)}`
+        `Reranking failed, falling back to local reranking (query_length: ${query.length}, candidates: ${processedResults.length}): ${error instanceof Error ? error.message : String(error)}`
       );
 
-      // Fallback: use original order, truncate to requested count
-      finalResults = processedResults
-        .slice(0, resultCount)
-        .map((processed, index) => ({
-          id: processed.id,
-          url: processed.url,
-          title: processed.title,
-          content: processed.content,
-          chunk_index: processed.chunk_index,
-          total_chunks: processed.total_chunks,
-          mergedChunkIndices: processed.mergedChunkIndices,
-          original_index: index,
-        }));
+      // Fallback: in-process BM25 + symbol + cosine ranking of the candidates
+      degraded = true;
+      tracer?.recordFallback(
+        `local_rerank: ${error instanceof Error ? error.message : String(error)}`
+      );
+      const localStart = Date.now();
+      finalResults = await this.localRerankFallback(
+        plan.rerankQuery,
+        processedResults,
+        poolSize,
+        queryEmbedding,
+        tracer
+      );
+      tracer?.recordStage("local_rerank", localStart);
 
-      logger.warn(
-        `Reranking failed, using original order with ${finalResults.length} results`
+      onProgress?.({
+        progress: SEARCH_PROGRESS.RERANKING,
+        total: SEARCH_PROGRESS.TOTAL,
+        message: "Reranking unavailable, using local ranking",
+      });
+    }
+
+    // Step 6: Diversify the reranked pool
+    if (finalResults.length > resultCount) {
+      const diversifyStart = Date.now();
+      finalResults = await this.diversify(
+        finalResults,
+        resultCount,
+        diversity,
+        tracer
+      );
+      tracer?.recordStage("diversify", diversifyStart);
+    }
+
+    // Weak results are dropped from the page so callers can report "not documented"
+    if (scoreCutoff !== undefined) {
+      const cutoff = scoreCutoff;
+      const page = finalResults.slice(0, resultCount);
+      finalResults = page.filter((r) => (r.relevanceScore ?? 0) >= cutoff);
+      belowMinScore = page.length - finalResults.length;
+    }
+
+    let pageResults = finalResults;
+    const hasMore =
+      finalResults.length === resultCount &&
+      processedResults.length > resultCount;
+
+    // Step 7: Pull in adjacent chunks of partial documents
+    if (contextChunks > 0) {
+      const expansionStart = Date.now();
+      pageResults = await this.expandContext(
+        pageResults,
+        contextChunks,
+        deadline,
+        tracer
       );
+      tracer?.recordStage("context_expansion", expansionStart);
     }
 
-    // Collect additional URLs
+    // Collect additional URLs not shown on this or an earlier page
     const additionalUrls = this.collectAdditionalUrls(
       processedResults,
       finalResults
     );
 
-    return { results: finalResults, additionalUrls };
+    return {
+      results: pageResults,
+      additionalUrls,
+      belowMinScore,
+      hasMore,
+      degraded,
+    };
+  }
+
+  /**
+   * Diversity requested by the caller, clamped to [0, 1]
+   */
+  private resolveDiversity(options: SearchOptions): number {
+    const diversity = options.diversity ?? SEARCH_CONFIG.DIVERSITY.DEFAULT;
+    return Math.min(Math.max(diversity, 0), 1);
+  }
+
+  /**
+   * Select resultCount results from the ranked pool by Maximal Marginal Relevance
+   */
+  private async diversify(
+    rankedResults: RankedSearchResult[],
+    resultCount: number,
+    diversity: number,
+    tracer?: SearchTracer
+  ): Promise<RankedSearchResult[]> {
+    let similarities: ChunkSimilarity[] = [];
+    try {
+      similarities = await this.database.getChunkSimilarities(
+        rankedResults.map((r) => r.id)
+      );
+    } catch (error) {
+      logger.warn(
+        `Chunk similarity lookup failed, diversifying by URL and title only: ${error instanceof Error ? error.message : String(error)}`
+      );
+      tracer?.recordFallback("diversify_without_embeddings");
+    }
+
+    // Local fallback results carry no score, so fall back to rank order
+    const maxScore = Math.max(
+      0,
+      ...rankedResults.map((r) => r.relevanceScore ?? 0)
+    );
+    const selected = selectByMMR(
+      rankedResults.map((r, index) => ({
+        id: r.id,
+        relevance:
+          r.relevanceScore !== undefined && maxScore > 0
+            ? r.relevanceScore / maxScore
+            : 1 - index / rankedResults.length,
+        url: r.url,
+        title: r.title,
+      })),
+      resultCount,
+      diversity,
+      similarities
+    );
+
+    tracer?.recordDiversification(selected);
+    logger.info(
+      `Diversified results (diversity: ${diversity}, pool: ${rankedResults.length}, similar_pairs: ${similarities.length}, selected: ${selected.join(",")})`
+    );
+
+    return selected.map((index) => rankedResults[index]);
+  }
+
+  /**
+   * Merge chunks within chunk_index ± contextChunks into each partial result,
+   * nearest neighbors first, until the character budget is spent. A neighbor
+   * that does not fit ends expansion in its direction, so merged chunks stay contiguous
+   */
+  private async expandContext(
+    results: RankedSearchResult[],
+    contextChunks: number,
+    deadline?: number,
+    tracer?: SearchTracer
+  ): Promise<RankedSearchResult[]> {
+    if (deadline !== undefined && Date.now() >= deadline) {
+      logger.warn("Latency budget exhausted, returning results unexpanded");
+      tracer?.recordFallback("context_expansion_skipped");
+      return results;
+    }
+
+    const { MAX_CHUNKS, CHARACTER_BUDGET } = SEARCH_CONFIG.CONTEXT_EXPANSION;
+    const radius = Math.min(contextChunks, MAX_CHUNKS);
+
+    const ranges: ChunkRange[] = results
+      .filter((r) => r.total_chunks > 1)
+      .map((r) => {
+        const indices = r.mergedChunkIndices ?? [r.chunk_index];
+        return {
+          url: r.url,
+          fromIndex: Math.max(Math.min(...indices) - radius, 0),
+          toIndex: Math.min(Math.max(...indices) + radius, r.total_chunks - 1),
+        };
+      });
+
+    let chunks: SearchResult[];
+    try {
+      chunks = await this.database.getChunkRanges(ranges);
+    } catch (error) {
+      logger.warn(
+        `Context expansion failed, returning results unexpanded: ${error instanceof Error ? error.message : String(error)}`
+      );
+      tracer?.recordFallback("context_expansion_skipped");
+      return results;
+    }
+
+    // Neighbors of each result, grouped by distance to its nearest included chunk
+    const neighborsByResult = results.map((r) => {
+      const included = new Set(r.mergedChunkIndices ?? [r.chunk_index]);
+      const pageChunks = chunks.filter((chunk) => chunk.url === r.url);
+      const neighbors = pageChunks
+        .filter((chunk) => !included.has(chunk.chunk_index))
+        .map((chunk) => ({
+          chunk,
+          distance: Math.min(
+            ...Array.from(included, (index) =>
+              Math.abs(index - chunk.chunk_index)
+            )
+          ),
+        }));
+      return { pageChunks, included, neighbors };
+    });
+
+    // Spend the budget ring by ring so every result gets its closest context first
+    let remainingBudget = CHARACTER_BUDGET;
+    for (let distance = 1; distance <= radius; distance++) {
+      for (const { included, neighbors } of neighborsByResult) {
+        for (const neighbor of neighbors) {
+          const index = neighbor.chunk.chunk_index;
+          if (
+            neighbor.distance === distance &&
+            neighbor.chunk.contentLength <= remainingBudget &&
+            // Detached once the nearer neighbor in its direction was skipped
+            (included.has(index - 1) || included.has(index + 1))
+          ) {
+            included.add(index);
+            remainingBudget -= neighbor.chunk.contentLength;
+          }
+        }
+      }
+    }
+
+    logger.info(
+      `Context expansion completed (radius: ${radius}, chunks: ${chunks.length}, characters: ${CHARACTER_BUDGET - remainingBudget})`
+    );
+
+    return results.map((result, index) => {
+      const { pageChunks, included } = neighborsByResult[index];
+      const group = pageChunks.filter((chunk) =>
+        included.has(chunk.chunk_index)
+      );
+      // Original chunks missing from the lookup would be lost by re-merging
+      if (group.length !== included.size) return result;
+
+      const [merged] = this.mergeByUrl(
+        group.map((chunk) => ({ ...chunk, fusedScore: 0, ranks: {} }))
+      );
+      return {
+        ...result,
+        content: merged.content,
+        chunk_index: merged.chunk_index,
+        total_chunks: merged.total_chunks,
+        mergedChunkIndices: merged.mergedChunkIndices,
+      };
+    });
+  }
+
+  /**
+   * Rank candidates in-process when the remote reranker is unavailable
+   */
+  private async localRerankFallback(
+    query: string,
+    processedResults: ProcessedResult[],
+    resultCount: number,
+    queryEmbedding: number[] | null,
+    tracer?: SearchTracer
+  ): Promise<RankedSearchResult[]> {
+    const similarities = await this.getCandidateSimilarities(
+      processedResults,
+      queryEmbedding
+    );
+
+    const rankedDocuments = localRerank(
+      query,
+      processedResults.map((processed, index) => ({
+        title: processed.title,
+        content: processed.content,
+        similarity: similarities[index],
+      })),
+      resultCount,
+      SEARCH_CONFIG.LOCAL_RERANK
+    );
+    tracer?.recordRerank("local", rankedDocuments, processedResults);
+
+    logger.warn(
+      `Reranking failed, using local ranking with ${rankedDocuments.length} results (cosine: ${queryEmbedding !== null})`
+    );
+
+    // Local scores are not comparable to reranker scores and are not exposed
+    return rankedDocuments.map((doc) =>
+      this.toRankedResult(
+        processedResults[doc.originalIndex],
+        doc.originalIndex
+      )
+    );
+  }
+
+  /**
+   * Final result for a ranked candidate, with its retrieval provenance
+   */
+  private toRankedResult(
+    processed: ProcessedResult,
+    originalIndex: number,
+    relevanceScore?: number
+  ): RankedSearchResult {
+    return {
+      id: processed.id,
+      url: processed.url,
+      title: processed.title,
+      content: processed.content,
+      chunk_index: processed.chunk_index,
+      total_chunks: processed.total_chunks,
+      mergedChunkIndices: processed.mergedChunkIndices,
+      original_index: originalIndex,
+      relevanceScore,
+      vectorDistance: processed.vectorDistance,
+      keywordScore: processed.keywordScore,
+      keywordRank: processed.ranks.keyword,
+      sources: Object.keys(processed.ranks) as RetrievalSource[],
+    };
+  }
+
+  /**
+   * Cosine similarity of each candidate to the query, looking up distances
+   * for keyword-only candidates
+   */
+  private async getCandidateSimilarities(
+    processedResults: ProcessedResult[],
+    queryEmbedding: number[] | null
+  ): Promise<(number | undefined)[]> {
+    if (!queryEmbedding) return processedResults.map(() => undefined);
+
+    const missingIds = processedResults
+      .filter((r) => r.vectorDistance === undefined)
+      .flatMap((r) => r.chunkIds);
+
+    let distances = new Map<string, number>();
+    try {
+      distances = await this.database.getVectorDistances(
+        queryEmbedding,
+        missingIds
+      );
+    } catch (error) {
+      logger.warn(
+        `Vector distance lookup failed, ranking keyword-only candidates lexically: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    return processedResults.map((r) => {
+      const known = r.chunkIds
+        .map((id) => distances.get(id))
+        .filter((distance) => distance !== undefined);
+      if (r.vectorDistance !== undefined) known.push(r.vectorDistance);
+
+      return known.length > 0 ? 1 - Math.min(...known) : undefined;
+    });
   }
 
   /**
@@ -165,22 +740,40 @@ export class SearchEngine {
    */
   private async getSemanticCandidates(
     query: string,
-    resultCount: number
-  ): Promise<SearchResult[]> {
+    resultCount: number,
+    filters?: SearchFilters,
+    onProgress?: ProgressCallback,
+    onUsage?: UsageCallback,
+    tracer?: SearchTracer,
+    subQuery = 0
+  ): Promise<SemanticCandidates> {
     const startTime = Date.now();
+    let queryEmbedding: number[] | null = null;
 
     try {
-      const queryEmbedding = await this.embedding.createEmbedding(query);
+      queryEmbedding = await this.embedding.createEmbedding(query, onUsage);
+      tracer?.recordStage("embedding", startTime);
+      const searchStart = Date.now();
+      onProgress?.({
+        progress: SEARCH_PROGRESS.EMBEDDING,
+        total: SEARCH_PROGRESS.TOTAL,
+        message: "Query embedding created",
+      });
+
       const results = await this.database.semanticSearch(queryEmbedding, {
         resultCount,
+        filters,
       });
 
+      tracer?.recordStage("semantic_search", searchStart);
+      tracer?.recordCandidates("semantic", results, subQuery);
+
       const duration = Date.now() - startTime;
       logger.info(
-        `Semantic search completed (${(duration / 1000).toFixed(1)}s): ${results.length} results`
+        `Semantic search completed (${(duration / 1000).toFixed(1)}s): ${results.length} results (filters: ${describeFilters(filters)})`
       );
 
-      return results;
+      return { results, queryEmbedding, failed: false };
     } catch (error) {
       const duration = Date.now() - startTime;
       const errorMessage =
@@ -189,14 +782,18 @@ export class SearchEngine {
         errorMessage.includes("503") || errorMessage.includes("overloaded");
 
       logger.error(
-        `Semantic search failed (duration: ${duration}ms, query_length: ${query.length}, result_count: ${resultCount}, service_overload: ${isServiceOverload}): ${errorMessage}`
+        `Semantic search failed (duration: ${duration}ms, query_length: ${query.length}, result_count: ${resultCount}, filters: ${describeFilters(filters)}, service_overload: ${isServiceOverload}): ${errorMessage}`
       );
 
       // Return empty results as fallback - let keyword search handle the query
       logger.warn(
         `Semantic search failed${isServiceOverload ? " due to API overload" : ""}, falling back to keyword-only search`
       );
-      return [];
+      tracer?.recordFallback(
+        queryEmbedding ? "semantic_search_failed" : "embedding_failed"
+      );
+      // Keep the embedding if only the vector query failed
+      return { results: [], queryEmbedding, failed: true };
     }
   }
 
@@ -205,57 +802,41 @@ export class SearchEngine {
    */
   private async getKeywordCandidates(
     query: string,
-    resultCount: number
-  ): Promise<SearchResult[]> {
+    resultCount: number,
+    filters?: SearchFilters,
+    tracer?: SearchTracer,
+    subQuery = 0
+  ): Promise<KeywordCandidates> {
     const startTime = Date.now();
 
     try {
       const results = await this.database.keywordSearch(query, {
         resultCount,
+        filters,
       });
 
+      tracer?.recordStage("keyword_search", startTime);
+      tracer?.recordCandidates("keyword", results, subQuery);
+
       const duration = Date.now() - startTime;
       logger.info(
-        `Keyword search completed (${(duration / 1000).toFixed(1)}s): ${results.length} results`
+        `Keyword search completed (${(duration / 1000).toFixed(1)}s): ${results.length} results (filters: ${describeFilters(filters)})`
       );
 
-      return results;
+      return { results, failed: false };
     } catch (error) {
       const duration = Date.now() - startTime;
       logger.error(
-        `Keyword search failed (duration: ${duration}ms, query_length: ${query.length}, result_count: ${resultCount}): ${error instanceof Error ? error.message : String(error)}`
+        `Keyword search failed (duration: ${duration}ms, query_length: ${query.length}, result_count: ${resultCount}, filters: ${describeFilters(filters)}): ${error instanceof Error ? error.message : String(error)}`
       );
 
       // Return empty results as fallback
       logger.warn(`Keyword search failed, returning empty results`);
-      return [];
+      tracer?.recordFallback("keyword_search_failed");
+      return { results: [], failed: true };
     }
   }
 
-  /**
-   * Merge and deduplicate candidates from semantic and keyword search
-   */
-  private mergeCandidates(
-    semanticResults: SearchResult[],
-    keywordResults: SearchResult[]
-  ): SearchResult[] {
-    const seen = new Set<string>();
-
-    // Prioritize semantic results, then add unique keyword results
-    return [
-      ...semanticResults.filter((result) => {
-        if (seen.has(result.id)) return false;
-        seen.add(result.id);
-        return true;
-      }),
-      ...keywordResults.filter((result) => {
-        if (seen.has(result.id)) return false;
-        seen.add(result.id);
-        return true;
-      }),
-    ];
-  }
-
   /**
    * Collect additional URLs from processed results
    */
@@ -281,11 +862,51 @@ export class SearchEngine {
   }
 
   /**
-   * Process RAG candidates through title-based merging
+   * Process RAG candidates through URL-based merging, ordered by fused score
    */
-  private processResults(candidates: SearchResult[]): ProcessedResult[] {
-    // Step 1: Merge by title
-    return this.mergeByTitle(candidates);
+  private processResults(candidates: FusedCandidate[]): ProcessedResult[] {
+    // Step 1: Merge chunks of the same page
+    return this.mergeByUrl(candidates).sort(
+      (a, b) => b.fusedScore - a.fusedScore
+    );
+  }
+
+  /**
+   * Best (lowest) rank per retrieval source across merged chunks
+   */
+  private bestRanks(
+    group: FusedCandidate[]
+  ): Partial<Record<RetrievalSource, number>> {
+    const ranks: Partial<Record<RetrievalSource, number>> = {};
+    for (const candidate of group) {
+      for (const [source, rank] of Object.entries(candidate.ranks) as [
+        RetrievalSource,
+        number,
+      ][]) {
+        ranks[source] = Math.min(ranks[source] ?? rank, rank);
+      }
+    }
+    return ranks;
+  }
+
+  /**
+   * Smallest vector distance across merged chunks, if any was retrieved semantically
+   */
+  private bestVectorDistance(group: FusedCandidate[]): number | undefined {
+    const distances = group
+      .map((candidate) => candidate.vectorDistance)
+      .filter((distance) => distance !== undefined);
+    return distances.length > 0 ? Math.min(...distances) : undefined;
+  }
+
+  /**
+   * Highest keyword score across merged chunks, if any was retrieved by keyword
+   */
+  private bestKeywordScore(group: FusedCandidate[]): number | undefined {
+    const scores = group
+      .map((candidate) => candidate.keywordScore)
+      .filter((score) => score !== undefined);
+    return scores.length > 0 ? Math.max(...scores) : undefined;
   }
 
   private parseChunk(content: string, title: string | null): ParsedChunk {
@@ -297,21 +918,24 @@ export class SearchEngine {
     };
   }
 
-  private mergeByTitle(results: SearchResult[]): ProcessedResult[] {
-    const titleGroups = new Map<string, SearchResult[]>();
+  /**
+   * Merge chunks of the same page. Titles are not unique across frameworks
+   * ("Overview", "init(_:)"), so only the URL identifies a page
+   */
+  private mergeByUrl(results: FusedCandidate[]): ProcessedResult[] {
+    const urlGroups = new Map<string, FusedCandidate[]>();
 
-    // Group by title
+    // Group by URL
     for (const result of results) {
-      const { title } = this.parseChunk(result.content, result.title);
-      const titleKey = title || "untitled";
-      if (!titleGroups.has(titleKey)) {
-        titleGroups.set(titleKey, []);
+      if (!urlGroups.has(result.url)) {
+        urlGroups.set(result.url, []);
       }
-      titleGroups.get(titleKey)!.push(result);
+      urlGroups.get(result.url)!.push(result);
     }
 
-    return Array.from(titleGroups.entries()).map(([title, group]) => {
+    return Array.from(urlGroups.values()).map((group) => {
       const primary = group[0];
+      const { title } = this.parseChunk(primary.content, primary.title);
 
       // Sort and merge chunks by original index to maintain proper content order
       const chunkIndices = group
@@ -338,12 +962,17 @@ export class SearchEngine {
       return {
         id: primary.id,
         url: primary.url,
-        title,
+        title: title || null,
         content: mergedContent,
         mergedChunkIndices: chunkIndices.length > 1 ? chunkIndices : undefined,
         contentLength: mergedContent.length,
         chunk_index,
         total_chunks,
+        fusedScore: Math.max(...group.map((r) => r.fusedScore)),
+        ranks: this.bestRanks(group),
+        chunkIds: group.map((r) => r.id),
+        vectorDistance: this.bestVectorDistance(group),
+        keywordScore: this.bestKeywordScore(group),
       };
     });
   }
@@ -0,0 +1,169 @@
+/**
+ * Search Trace
+ * Per-query record of what each search pipeline stage did, for admin debugging
+ */
+
+import type { SearchResult } from "../types/index.js";
+import type { RetrievalSource } from "./fusion.js";
+import type { RankedDocument } from "./providers/index.js";
+import type { QueryPlan } from "./query-planner.js";
+
+export interface TraceStage {
+  name: string;
+  durationMs: number;
+}
+
+export interface TraceCandidate {
+  // Index into the plan's sub-queries the candidate was retrieved for
+  subQuery: number;
+  rank: number;
+  id: string;
+  url: string;
+  title: string | null;
+  chunk_index: number;
+  vectorDistance?: number;
+  keywordScore?: number;
+}
+
+export interface TraceMergeGroup {
+  url: string;
+  title: string | null;
+  chunkIds: string[];
+  fusedScore: number;
+  ranks: Partial<Record<RetrievalSource, number>>;
+}
+
+export interface TraceRerankScore {
+  url: string;
+  originalIndex: number;
+  score: number;
+}
+
+export interface SearchTraceReport {
+  originalQuery?: string;
+  cleanedQuery?: string;
+  plan?: QueryPlan;
+  cache: "hit" | "miss" | "bypassed" | "disabled";
+  stages: TraceStage[];
+  semanticCandidates: TraceCandidate[];
+  keywordCandidates: TraceCandidate[];
+  mergeGroups: TraceMergeGroup[];
+  rerank: {
+    method: "remote" | "local" | "none";
+    provider?: string;
+    scores: TraceRerankScore[];
+  };
+  diversifiedOrder?: number[];
+  fallbacks: string[];
+}
+
+export class SearchTracer {
+  private readonly report: SearchTraceReport = {
+    cache: "disabled",
+    stages: [],
+    semanticCandidates: [],
+    keywordCandidates: [],
+    mergeGroups: [],
+    rerank: { method: "none", scores: [] },
+    fallbacks: [],
+  };
+
+  /**
+   * Query before and after temporal cleaning
+   */
+  recordQuery(originalQuery: string, cleanedQuery: string): void {
+    this.report.originalQuery = originalQuery;
+    this.report.cleanedQuery = cleanedQuery;
+  }
+
+  recordCache(status: SearchTraceReport["cache"]): void {
+    this.report.cache = status;
+  }
+
+  /**
+   * Duration of a stage that started at startTime (epoch ms)
+   */
+  recordStage(name: string, startTime: number): void {
+    this.report.stages.push({ name, durationMs: Date.now() - startTime });
+  }
+
+  /**
+   * Sub-queries and symbols the query was planned into
+   */
+  recordPlan(plan: QueryPlan): void {
+    this.report.plan = plan;
+  }
+
+  recordCandidates(
+    source: RetrievalSource,
+    results: SearchResult[],
+    subQuery = 0
+  ): void {
+    const candidates = results.map((result, index) => ({
+      subQuery,
+      rank: index + 1,
+      id: result.id,
+      url: result.url,
+      title: result.title,
+      chunk_index: result.chunk_index,
+      vectorDistance: result.vectorDistance,
+      keywordScore: result.keywordScore,
+    }));
+
+    if (source === "semantic") {
+      this.report.semanticCandidates.push(...candidates);
+    } else {
+      this.report.keywordCandidates.push(...candidates);
+    }
+  }
+
+  recordMergeGroups(groups: TraceMergeGroup[]): void {
+    this.report.mergeGroups = groups.map(
+      ({ url, title, chunkIds, fusedScore, ranks }) => ({
+        url,
+        title,
+        chunkIds,
+        fusedScore,
+        ranks,
+      })
+    );
+  }
+
+  /**
+   * Scores from the remote reranker or the local fallback, best first
+   */
+  recordRerank(
+    method: "remote" | "local",
+    documents: RankedDocument[],
+    groups: TraceMergeGroup[],
+    provider?: string
+  ): void {
+    this.report.rerank = {
+      method,
+      provider,
+      scores: documents.map((doc) => ({
+        url: groups[doc.originalIndex].url,
+        originalIndex: doc.originalIndex,
+        score: doc.relevanceScore,
+      })),
+    };
+  }
+
+  /**
+   * Pool positions chosen by MMR, in selection order
+   */
+  recordDiversification(selected: number[]): void {
+    this.report.diversifiedOrder = selected;
+  }
+
+  /**
+   * A degraded path taken instead of the normal one
+   */
+  recordFallback(reason: string): void {
+    this.report.fallbacks.push(reason);
+  }
+
+  toReport(): SearchTraceReport {
+    return this.report;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * MCP Session Service
+ * Issues and validates Mcp-Session-Id sessions stored in D1
+ */
+
+import { logger } from "../utils/logger.js";
+
+export interface MCPSession {
+  id: string;
+  userId: string | null;
+  protocolVersion: string;
+  clientName: string | null;
+  clientVersion: string | null;
+  requestCount: number;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+export interface CreateSessionParams {
+  userId?: string;
+  protocolVersion: string;
+  clientInfo?: {
+    name?: string;
+    version?: string;
+  };
+}
+
+// Sessions expire after 24 hours of inactivity
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class SessionService {
+  constructor(private d1: D1Database) {}
+
+  /**
+   * Create a new session after a successful initialize
+   */
+  async create(params: CreateSessionParams): Promise<MCPSession> {
+    const now = new Date().toISOString();
+    const session: MCPSession = {
+      id: crypto.randomUUID(),
+      userId: params.userId ?? null,
+      protocolVersion: params.protocolVersion,
+      clientName: params.clientInfo?.name ?? null,
+      clientVersion: params.clientInfo?.version ?? null,
+      requestCount: 0,
+      createdAt: now,
+      lastSeenAt: now,
+    };
+
+    const result = await this.d1
+      .prepare(
+        `INSERT INTO mcp_sessions
+         (id, user_id, protocol_version, client_name, client_version, request_count, created_at, last_seen_at)
+         VALUES (?, ?, ?, ?, ?, 0, ?, ?)`
+      )
+      .bind(
+        session.id,
+        session.userId,
+        session.protocolVersion,
+        session.clientName,
+        session.clientVersion,
+        now,
+        now
+      )
+      .run();
+
+    if (!result.success) {
+      throw new Error("D1 session insert failed");
+    }
+
+    logger.info(
+      `MCP session created: ${session.id} (user: ${session.userId ?? "anonymous"}, client: ${session.clientName ?? "unknown"} ${session.clientVersion ?? ""}, protocol: ${session.protocolVersion})`
+    );
+
+    return session;
+  }
+
+  /**
+   * Get an active session, or null if unknown, terminated or expired
+   */
+  async get(sessionId: string): Promise<MCPSession | null> {
+    const row = await this.d1
+      .prepare(
+        `SELECT id, user_id, protocol_version, client_name, client_version, request_count, created_at, last_seen_at
+         FROM mcp_sessions
+         WHERE id = ? AND terminated_at IS NULL`
+      )
+      .bind(sessionId)
+      .first();
+
+    if (!row) return null;
+
+    const lastSeenAt = row.last_seen_at as string;
+    if (Date.now() - new Date(lastSeenAt).getTime() > SESSION_IDLE_TTL_MS) {
+      return null;
+    }
+
+    return {
+      id: row.id as string,
+      userId: (row.user_id as string | null) ?? null,
+      protocolVersion: row.protocol_version as string,
+      clientName: (row.client_name as string | null) ?? null,
+      clientVersion: (row.client_version as string | null) ?? null,
+      requestCount: row.request_count as number,
+      createdAt: row.created_at as string,
+      lastSeenAt,
+    };
+  }
+
+  /**
+   * Record activity on a session for per-client usage attribution
+   */
+  async touch(sessionId: string): Promise<void> {
+    try {
+      await this.d1
+        .prepare(
+          "UPDATE mcp_sessions SET last_seen_at = ?, request_count = request_count + 1 WHERE id = ?"
+        )
+        .bind(new Date().toISOString(), sessionId)
+        .run();
+    } catch (error) {
+      logger.error(
+        `Failed to update MCP session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      // 不重新抛出错误，避免影响主流程
+    }
+  }
+
+  /**
+   * Terminate a session (DELETE request)
+   */
+  async terminate(sessionId: string): Promise<boolean> {
+    const result = await this.d1
+      .prepare(
+        "UPDATE mcp_sessions SET terminated_at = ? WHERE id = ? AND terminated_at IS NULL"
+      )
+      .bind(new Date().toISOString(), sessionId)
+      .run();
+
+    return result.success && result.meta.changes > 0;
+  }
+}
@@ -5,8 +5,22 @@
 
 import { logger } from "../utils/logger.js";
 import { SiliconFlowKeyManager } from "./key-manager.js";
+import { withTimeout } from "./providers/http-client.js";
 import { SILICONFLOW_CONFIG } from "./siliconflow-config.js";
 
+export interface FailoverResult<TResult> {
+  result: TResult;
+  // ID of the API key that served the call
+  keyId: number;
+}
+
+export interface FailoverOptions {
+  signal?: AbortSignal;
+  // Keys held by concurrent hedged calls, skipped like already tried ones
+  excludeKeyIds?: number[];
+  onKeyClaimed?: (keyId: number) => void;
+}
+
 export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
   protected readonly keyManager: SiliconFlowKeyManager;
   protected abstract readonly endpoint: string;
@@ -20,10 +34,12 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
    */
   protected async callWithFailover(
     input: TRequest,
-    operationName: string
-  ): Promise<TResult> {
+    operationName: string,
+    { signal, excludeKeyIds = [], onKeyClaimed }: FailoverOptions = {}
+  ): Promise<FailoverResult<TResult>> {
     const startTime = Date.now();
     let lastError: Error | null = null;
+    const triedKeyIds: number[] = [...excludeKeyIds];
 
     // Try multiple API keys
     for (
@@ -31,8 +47,13 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
       keyAttempt < SILICONFLOW_CONFIG.MAX_KEY_ATTEMPTS;
       keyAttempt++
     ) {
+      // Cancelled by the caller (hedge lost or budget exhausted) - stop retrying
+      signal?.throwIfAborted();
+
       try {
-        const apiKey = await this.keyManager.getCurrentKey();
+        const apiKey = await this.keyManager.getCurrentKey(triedKeyIds);
+        triedKeyIds.push(apiKey.id);
+        onKeyClaimed?.(apiKey.id);
 
         // Try API call with current key
         for (
@@ -41,22 +62,25 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
           retry++
         ) {
           try {
-            const response = await this.makeApiCall(input, apiKey);
+            const response = await this.makeApiCall(input, apiKey.key, signal);
             const result = this.processResponse(response);
+            await this.keyManager.recordSuccess(apiKey);
 
             const duration = Date.now() - startTime;
             logger.info(
               `${operationName} completed (${(duration / 1000).toFixed(1)}s)`
             );
 
-            return result;
+            return { result, keyId: apiKey.id };
           } catch (error) {
             lastError =
               error instanceof Error ? error : new Error(String(error));
+            if (signal?.aborted) throw lastError;
+            await this.keyManager.recordError(apiKey, lastError);
 
-            // If API key error, remove key and try next one
+            // If API key error, quarantine key and try next one
             if (this.keyManager.isApiKeyError(lastError)) {
-              await this.keyManager.removeKey(apiKey);
+              await this.keyManager.quarantineKey(apiKey, lastError.message);
               break; // Try next key
             }
 
@@ -70,6 +94,7 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
                 SILICONFLOW_CONFIG.RETRY_MAX_DELAY
               );
               await this.sleep(delay);
+              signal?.throwIfAborted();
               continue;
             }
 
@@ -78,10 +103,15 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
           }
         }
       } catch (error) {
+        if (signal?.aborted) throw error;
         if (
           (error as Error).message.includes("No SiliconFlow API keys available")
         ) {
-          throw new Error("All SiliconFlow API keys exhausted");
+          throw new Error(
+            lastError
+              ? `All SiliconFlow API keys exhausted: ${lastError.message}`
+              : "All SiliconFlow API keys exhausted"
+          );
         }
         lastError = error as Error;
       }
@@ -99,7 +129,8 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
    */
   private async makeApiCall(
     input: TRequest,
-    apiKey: string
+    apiKey: string,
+    signal?: AbortSignal
   ): Promise<TResponse> {
     const payload = this.buildPayload(input);
     const headers = this.buildHeaders(apiKey);
@@ -110,7 +141,7 @@ export abstract class SiliconFlowService<TRequest, TResponse, TResult> {
         method: "POST",
         headers,
         body: JSON.stringify(payload),
-        signal: AbortSignal.timeout(SILICONFLOW_CONFIG.TIMEOUT_MS),
+        signal: withTimeout(signal),
       }
     );
 
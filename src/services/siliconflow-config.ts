@@ -15,6 +15,9 @@ export const SILICONFLOW_CONFIG = {
   RETRY_BASE_DELAY: 1000, // 1 second
   RETRY_MAX_DELAY: 3000, // 3 seconds
 
+  // Key Rotation
+  KEY_QUARANTINE_MS: 60 * 60 * 1000, // 1 hour before a disabled key is retried
+
   // Models
   EMBEDDING_MODEL: "Qwen/Qwen3-Embedding-4B",
   RERANKER_MODEL: "Qwen/Qwen3-Reranker-8B",
@@ -13,6 +13,9 @@ export interface SearchLogEntry {
   statusCode?: number;
   errorCode?: string | null;
   ipAddress?: string;
+  // Embedding + rerank provider tokens consumed by the search
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 export interface FetchLogEntry {
@@ -71,8 +74,8 @@ export class ToolCallLogger {
       const result = await this.d1
         .prepare(
           `INSERT INTO search_logs
-         (user_id, mcp_token, search_query, result_count, response_time_ms, status_code, error_code, ip_address, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+         (user_id, mcp_token, search_query, result_count, response_time_ms, status_code, error_code, ip_address, input_tokens, output_tokens, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
         )
         .bind(
           entry.userId,
@@ -83,6 +86,8 @@ export class ToolCallLogger {
           entry.statusCode,
           entry.errorCode || null,
           entry.ipAddress || null,
+          entry.inputTokens ?? 0,
+          entry.outputTokens ?? 0,
           now
         )
         .run();
@@ -0,0 +1,78 @@
+/**
+ * Token Usage Tracker
+ * Daily per-user, per-provider and per-key token aggregates in D1
+ */
+
+import type { TokenUsageRecord } from "../types/index.js";
+import { logger } from "../utils/logger.js";
+
+export interface TokenTotals {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Sum token usage across provider calls
+ */
+export function sumTokenUsage(
+  records: readonly TokenUsageRecord[]
+): TokenTotals {
+  return records.reduce(
+    (totals, record) => ({
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+    }),
+    { inputTokens: 0, outputTokens: 0 }
+  );
+}
+
+export class UsageTracker {
+  constructor(private readonly d1: D1Database) {}
+
+  /**
+   * Add provider calls to today's (UTC) aggregates for the user
+   */
+  async recordDaily(
+    userId: string,
+    records: readonly TokenUsageRecord[]
+  ): Promise<void> {
+    if (records.length === 0) return;
+
+    const now = new Date().toISOString();
+    const usageDate = now.substring(0, 10);
+
+    try {
+      await this.d1.batch(
+        records.map((record) =>
+          this.d1
+            .prepare(
+              `INSERT INTO token_usage_daily
+               (usage_date, user_id, provider, operation, key_id, call_count, input_tokens, output_tokens, updated_at)
+               VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)
+               ON CONFLICT(usage_date, user_id, provider, operation, key_id) DO UPDATE SET
+                 call_count = call_count + 1,
+                 input_tokens = input_tokens + excluded.input_tokens,
+                 output_tokens = output_tokens + excluded.output_tokens,
+                 updated_at = excluded.updated_at`
+            )
+            .bind(
+              usageDate,
+              userId,
+              record.provider,
+              record.operation,
+              // Empty string keeps keyless providers inside the primary key
+              record.keyId ?? "",
+              record.inputTokens,
+              record.outputTokens,
+              now
+            )
+        )
+      );
+    } catch (error) {
+      logger.error(
+        `Token usage recording failed (userId: ${userId}, calls: ${records.length}): ${error instanceof Error ? error.message : String(error)}`
+      );
+      // 不重新抛出错误，避免影响主流程
+    }
+  }
+}
@@ -3,7 +3,19 @@
  * Optimized for performance and type safety
  */
 
+import type { RetrievalSource } from "../services/fusion.js";
+import type {
+  EmbeddingProviderConfig,
+  RerankProviderConfig,
+} from "../services/providers/index.js";
+import type { SearchCursorCodec } from "../services/search-cursor.js";
+import type {
+  SearchTraceReport,
+  SearchTracer,
+} from "../services/search-trace.js";
+import type { SessionService } from "../services/session.js";
 import type { ToolCallLogger } from "../services/tool-call-logger.js";
+import type { UsageTracker } from "../services/usage-tracker.js";
 
 // Worker Environment
 export interface WorkerEnv {
@@ -20,6 +32,28 @@ export interface WorkerEnv {
 
   // Telegram Bot
   TELEGRAM_BOT_URL: string;
+
+  // Workers AI binding (required by the "workers-ai" providers)
+  AI?: Ai;
+
+  // Embedding provider: "siliconflow" (default), "openai" or "workers-ai"
+  EMBEDDING_PROVIDER?: string;
+  EMBEDDING_BASE_URL?: string;
+  EMBEDDING_API_KEY?: string;
+  EMBEDDING_MODEL?: string;
+  EMBEDDING_DIMENSIONS?: string;
+
+  // Reranker provider: "siliconflow" (default), "cohere" or "workers-ai"
+  RERANKER_PROVIDER?: string;
+  RERANKER_BASE_URL?: string;
+  RERANKER_API_KEY?: string;
+  RERANKER_MODEL?: string;
+
+  // Comma-separated user IDs allowed to use admin-only features (search debug traces)
+  ADMIN_USER_IDS?: string;
+
+  // HMAC key for search pagination cursors; pagination is off when unset
+  CURSOR_SECRET?: string;
 }
 
 // MCP Protocol Types
@@ -32,7 +66,7 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: "2.0";
-  id: string | number;
+  id: string | number | null;
   result?: unknown;
   error?: MCPError;
 }
@@ -57,6 +91,13 @@ export interface ToolDefinition {
     type: "object";
     properties: Record<string, unknown>;
     required?: string[];
+    // Alternative sets of required arguments
+    anyOf?: { required: string[] }[];
+  };
+  outputSchema?: {
+    type: "object";
+    properties: Record<string, unknown>;
+    required?: string[];
   };
 }
 
@@ -65,10 +106,59 @@ export interface ToolCall {
   arguments: Record<string, unknown>;
 }
 
+// Progress Types
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+export type InferenceOperation = "embedding" | "rerank";
+
+// Tokens consumed by one embedding or rerank provider call
+export interface TokenUsageRecord {
+  provider: string;
+  operation: InferenceOperation;
+  // Provider API key the call was billed to, if any
+  keyId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type UsageCallback = (record: TokenUsageRecord) => void;
+
+export interface ToolCallOptions {
+  onProgress?: ProgressCallback;
+  // Quota-consuming calls (tools, prompts, resource reads) ahead of this one in the same JSON-RPC batch
+  quotaOffset?: number;
+}
+
 // RAG Types
 export interface RAGQuery {
   query: string;
+  // Query as written, before cleaning; the planner splits it by line
+  originalQuery?: string;
   result_count?: number;
+  // Results already returned on earlier pages
+  offset?: number;
+  filters?: SearchFilters;
+  onProgress?: ProgressCallback;
+  // Skip the search result cache (debugging)
+  bypassCache?: boolean;
+  // Epoch ms by which results must be returned (plan latency budget)
+  deadline?: number;
+  // MMR diversification strength, 0 (relevance only) to 1
+  diversity?: number;
+  // Adjacent chunks (chunk_index ± k) to merge into each result
+  contextChunks?: number;
+  // Drop reranked results scoring below this relevance
+  minScore?: number;
+  // URLs returned on earlier pages, left out of this one
+  excludeUrls?: string[];
+  // Collects a pipeline trace (admin debug mode)
+  tracer?: SearchTracer;
 }
 
 export interface AdditionalUrl {
@@ -84,6 +174,18 @@ export interface RAGResult {
   additionalUrls: AdditionalUrl[];
   count: number;
   processing_time_ms: number;
+  // Provider tokens consumed by this query (empty when served from cache)
+  usage?: TokenUsageRecord[];
+  // Reranked results dropped by the minimum score cutoff
+  belowMinScore?: number;
+  // Pipeline trace, only when debug mode was requested
+  trace?: SearchTraceReport;
+  // Position of the first result in the full ranked list
+  offset?: number;
+  // More ranked results are available after this page
+  hasMore?: boolean;
+  // Opaque cursor for the next page, set by the search tool
+  nextCursor?: string;
 }
 
 export interface SearchResult {
@@ -95,6 +197,17 @@ export interface SearchResult {
   chunk_index: number;
   total_chunks: number;
   mergedChunkIndices?: number[];
+  relevanceScore?: number;
+  // Parent path of the page, disambiguates shared titles ("swiftui › view")
+  breadcrumb?: string;
+  // Cosine distance to the query embedding (semantic candidates only)
+  vectorDistance?: number;
+  // ts_rank_cd score (keyword candidates only)
+  keywordScore?: number;
+  // 1-based rank in the keyword candidate list
+  keywordRank?: number;
+  // Retrievers that returned this result
+  sources?: RetrievalSource[];
 }
 
 // Service Types
@@ -105,6 +218,10 @@ export interface Services {
   embedding: EmbeddingService;
   logger: ToolCallLogger;
   rateLimit: RateLimitService;
+  session: SessionService;
+  usage: UsageTracker;
+  // Absent when CURSOR_SECRET is not configured
+  cursors?: SearchCursorCodec;
 }
 
 export interface RAGService {
@@ -117,6 +234,8 @@ export interface AuthContext {
   userId?: string;
   email?: string;
   token?: string;
+  // Listed in ADMIN_USER_IDS, may use debug features
+  isAdmin?: boolean;
 }
 
 export interface DatabaseService {
@@ -125,16 +244,70 @@ export interface DatabaseService {
     options: SearchOptions
   ): Promise<SearchResult[]>;
   keywordSearch(query: string, options: SearchOptions): Promise<SearchResult[]>;
+  getVectorDistances(
+    queryEmbedding: number[],
+    chunkIds: string[]
+  ): Promise<Map<string, number>>;
+  getChunkSimilarities(chunkIds: string[]): Promise<ChunkSimilarity[]>;
+  getChunkRanges(ranges: ChunkRange[]): Promise<SearchResult[]>;
   getPageByUrl(url: string): Promise<PageResult | null>;
+  listPages(options: PageListOptions): Promise<PageSummary[]>;
+  getCorpusVersion(): Promise<string | null>;
   initialize(): Promise<void>;
 }
 
 export interface EmbeddingService {
-  createEmbedding(text: string): Promise<number[]>;
+  createEmbedding(text: string, onUsage?: UsageCallback): Promise<number[]>;
 }
 
 export interface SearchOptions {
+  originalQuery?: string;
   resultCount?: number;
+  offset?: number;
+  filters?: SearchFilters;
+  onProgress?: ProgressCallback;
+  onUsage?: UsageCallback;
+  bypassCache?: boolean;
+  deadline?: number;
+  diversity?: number;
+  contextChunks?: number;
+  minScore?: number;
+  excludeUrls?: string[];
+  tracer?: SearchTracer;
+}
+
+// Inclusive chunk_index range of one page
+export interface ChunkRange {
+  url: string;
+  fromIndex: number;
+  toIndex: number;
+}
+
+// Embedding cosine similarity of two chunks
+export interface ChunkSimilarity {
+  firstId: string;
+  secondId: string;
+  similarity: number;
+}
+
+export type SearchContentType = "documentation" | "video" | "hig";
+
+export type SearchPlatform =
+  | "ios"
+  | "ipados"
+  | "macos"
+  | "mac-catalyst"
+  | "tvos"
+  | "watchos"
+  | "visionos";
+
+export interface SearchFilters {
+  // Framework path below /documentation, e.g. "swiftui"
+  framework?: string;
+  // Pages whose availability lists this platform
+  platform?: SearchPlatform;
+  contentType?: SearchContentType;
+  urlPrefix?: string;
 }
 
 export interface PageResult {
@@ -144,6 +317,17 @@ export interface PageResult {
   content: string;
 }
 
+export interface PageListOptions {
+  afterUrl?: string;
+  limit: number;
+}
+
+export interface PageSummary {
+  url: string;
+  title: string | null;
+  contentLength: number;
+}
+
 // Configuration Types
 export interface AppConfig {
   NODE_ENV?: "development" | "production";
@@ -153,6 +337,8 @@ export interface AppConfig {
   RAG_DB_USER: string;
   RAG_DB_PASSWORD: string;
   RAG_DB_SSLMODE: string;
+  EMBEDDING: EmbeddingProviderConfig;
+  RERANKER: RerankProviderConfig;
   PORT?: number;
   CLOUDFLARE_ACCOUNT_ID?: string;
   CLOUDFLARE_API_TOKEN?: string;
@@ -174,7 +360,8 @@ export interface RateLimitResult {
 export interface RateLimitService {
   checkLimits(
     clientIP: string,
-    authContext: AuthContext
+    authContext: AuthContext,
+    pendingRequests?: number
   ): Promise<RateLimitResult>;
 }
 
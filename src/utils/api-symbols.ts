@@ -0,0 +1,20 @@
+/**
+ * API Symbol Extraction
+ * Finds tokens that look like Apple API symbols rather than prose
+ */
+
+/**
+ * Query tokens that look like API symbols (NavigationStack, @State, URLSession.shared)
+ */
+export function extractApiSymbols(text: string): string[] {
+  const candidates =
+    text.match(/@?[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/g) ?? [];
+
+  return Array.from(
+    new Set(
+      candidates.filter((token) =>
+        /^@|[a-z][A-Z]|^[A-Z]{2,}[a-z]|[A-Za-z]\.[A-Za-z]|_/.test(token)
+      )
+    )
+  );
+}
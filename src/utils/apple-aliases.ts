@@ -0,0 +1,182 @@
+/**
+ * Apple Alias Dictionary
+ * Maps Apple framework jargon, marketing names and ObjC/Swift type names onto
+ * each other so keyword search can match documentation that uses another name
+ *
+ * Each group lists interchangeable terms; a query mentioning any term in a
+ * group expands to the others. Keep terms as they appear in the docs, and
+ * keep them specific: the 'simple' tsvector lowercases and drops "@", so a
+ * term like @Model would match every page mentioning "model".
+ */
+
+const ALIAS_GROUPS: readonly (readonly string[])[] = [
+  // Persistence
+  ["Core Data", "NSPersistentContainer", "NSManagedObjectContext"],
+  ["SwiftData", "ModelContainer", "ModelContext"],
+  ["UserDefaults", "NSUserDefaults"],
+  ["iCloud sync", "CloudKit", "NSPersistentCloudKitContainer"],
+  ["keychain", "SecItemAdd", "SecItemCopyMatching"],
+
+  // Notifications and background work
+  [
+    "push notifications",
+    "remote notifications",
+    "UserNotifications",
+    "APNs",
+    "UNUserNotificationCenter",
+  ],
+  ["local notifications", "UNNotificationRequest"],
+  ["background tasks", "BackgroundTasks", "BGTaskScheduler"],
+
+  // UI frameworks
+  ["UIKit view controller", "UIViewController"],
+  ["SwiftUI navigation", "NavigationStack", "NavigationSplitView"],
+  ["NavigationView", "NavigationStack"],
+  ["home screen widget", "WidgetKit"],
+  ["Live Activities", "ActivityKit"],
+  ["Dynamic Island", "ActivityKit"],
+  ["in-app purchase", "StoreKit"],
+  [
+    "Sign in with Apple",
+    "AuthenticationServices",
+    "ASAuthorizationAppleIDProvider",
+  ],
+  ["Face ID", "Touch ID", "LocalAuthentication", "LAContext"],
+  ["Apple Pay", "PassKit", "PKPaymentRequest"],
+  ["Siri Shortcuts", "App Intents", "AppIntent"],
+  ["augmented reality", "ARKit", "RealityKit"],
+  ["machine learning", "Core ML", "MLModel"],
+  ["Core Location", "CLLocationManager"],
+  ["Apple Maps", "MapKit", "MKMapView"],
+  ["URLSession", "NSURLSession"],
+  ["async/await", "Swift concurrency"],
+  ["GCD", "Grand Central Dispatch", "DispatchQueue"],
+  ["HealthKit", "HKHealthStore"],
+];
+
+// Objective-C names and their Swift overlays. One-way: the Swift names are
+// ordinary words that would match most of the corpus as search triggers
+const OBJC_SWIFT_NAMES: readonly (readonly [string, string])[] = [
+  ["NSString", "String"],
+  ["NSArray", "Array"],
+  ["NSDictionary", "Dictionary"],
+  ["NSSet", "Set"],
+  ["NSData", "Data"],
+  ["NSDate", "Date"],
+  ["NSURL", "URL"],
+  ["NSError", "Error"],
+  ["NSUUID", "UUID"],
+  ["NSNotificationCenter", "NotificationCenter"],
+  ["NSBundle", "Bundle"],
+  ["NSFileManager", "FileManager"],
+  ["NSJSONSerialization", "JSONSerialization"],
+];
+
+// Cap on expansion terms so a long query cannot blow up the tsquery
+const MAX_ALIAS_TERMS = 12;
+
+export interface AliasExpansion {
+  // Term as written in the query
+  term: string;
+  // Alternatives OR'd with the term
+  aliases: string[];
+}
+
+export interface AliasedQuery {
+  // Query with the expanded terms cut out
+  text: string;
+  expansions: AliasExpansion[];
+}
+
+interface AliasTrigger {
+  term: string;
+  aliases: string[];
+  pattern: RegExp;
+}
+
+// Longest terms first, so "Core Data" is claimed before any shorter term inside it
+const ALIAS_TRIGGERS: AliasTrigger[] = buildTriggers();
+
+/**
+ * Find Apple jargon in a query and cut it out, returning each term with its aliases.
+ * Quoted phrases and -exclusions are left untouched.
+ */
+export function expandAppleAliases(query: string): AliasedQuery {
+  // Blank out quoted phrases so positions still line up with the query
+  const searchable = query.replace(/"[^"]*"?/g, (quoted) =>
+    " ".repeat(quoted.length)
+  );
+  const claimed: { start: number; end: number }[] = [];
+  const expansions: AliasExpansion[] = [];
+  let aliasCount = 0;
+
+  for (const { aliases, pattern } of ALIAS_TRIGGERS) {
+    if (aliasCount + aliases.length > MAX_ALIAS_TERMS) continue;
+
+    for (const match of searchable.matchAll(pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (claimed.some((range) => start < range.end && end > range.start)) {
+        continue;
+      }
+
+      claimed.push({ start, end });
+      if (!expansions.some((expansion) => expansion.term === match[0])) {
+        expansions.push({ term: match[0], aliases });
+        aliasCount += aliases.length;
+      }
+    }
+  }
+
+  const text = claimed
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (remaining, { start, end }) =>
+        `${remaining.slice(0, start)} ${remaining.slice(end)}`,
+      query
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return { text, expansions };
+}
+
+/**
+ * Alias triggers from both dictionaries, merged per term
+ */
+function buildTriggers(): AliasTrigger[] {
+  const aliasesByTerm = new Map<string, Set<string>>();
+  const addAliases = (term: string, aliases: readonly string[]) => {
+    const existing = aliasesByTerm.get(term) ?? new Set<string>();
+    for (const alias of aliases) {
+      if (alias !== term) existing.add(alias);
+    }
+    aliasesByTerm.set(term, existing);
+  };
+
+  for (const group of ALIAS_GROUPS) {
+    for (const term of group) addAliases(term, group);
+  }
+  for (const [objcName, swiftName] of OBJC_SWIFT_NAMES) {
+    addAliases(objcName, [swiftName]);
+  }
+
+  return Array.from(aliasesByTerm, ([term, aliases]) => ({
+    term,
+    aliases: Array.from(aliases),
+    pattern: termPattern(term),
+  })).sort((a, b) => b.term.length - a.term.length);
+}
+
+/**
+ * Whole-term pattern for an alias, tolerating any whitespace inside phrases.
+ * Symbols match case-sensitively so "error" in prose does not expand like Error;
+ * phrases and lowercase jargon match in any case
+ */
+function termPattern(term: string): RegExp {
+  const escaped = term
+    .replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  const isSymbol = !/\s/.test(term) && /[A-Z@]/.test(term);
+  return new RegExp(`(?<![\\w@-])${escaped}(?!\\w)`, isSymbol ? "g" : "gi");
+}
@@ -0,0 +1,18 @@
+/**
+ * Hash Utility
+ * Web Crypto digests for cache keys
+ */
+
+/**
+ * SHA-256 hex digest of a UTF-8 string
+ */
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value)
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseKeywordQuery } from "./keyword-query.js";
+
+describe("parseKeywordQuery alias expansion", () => {
+  it("expands an aliased term in place and keeps the other words", () => {
+    const { text, aliasedClauses } = parseKeywordQuery(
+      "Core Data lightweight migration"
+    );
+
+    expect(text).toBe("Core Data lightweight migration");
+    expect(aliasedClauses).toEqual([
+      {
+        text: "lightweight migration",
+        expansions: [
+          {
+            term: "Core Data",
+            aliases: ["NSPersistentContainer", "NSManagedObjectContext"],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("expands Objective-C names to Swift names but not the reverse", () => {
+    expect(parseKeywordQuery("NSString bridging").aliasedClauses).toEqual([
+      {
+        text: "bridging",
+        expansions: [{ term: "NSString", aliases: ["String"] }],
+      },
+    ]);
+    expect(parseKeywordQuery("String bridging").aliasedClauses).toEqual([]);
+  });
+
+  it("expands each OR clause separately", () => {
+    const { aliasedClauses } = parseKeywordQuery("NSError OR SecItemAdd");
+
+    expect(aliasedClauses.map((clause) => clause.text)).toEqual(["", ""]);
+    expect(aliasedClauses[0].expansions[0]).toEqual({
+      term: "NSError",
+      aliases: ["Error"],
+    });
+    expect(aliasedClauses[1].expansions[0].term).toBe("SecItemAdd");
+  });
+
+  it("leaves quoted phrases, exclusions and prose words alone", () => {
+    expect(
+      parseKeywordQuery('"NSString encoding" -NSData error handling')
+        .aliasedClauses
+    ).toEqual([]);
+  });
+
+  it("does not expand property wrappers the tokenizer reduces to plain words", () => {
+    expect(
+      parseKeywordQuery("@Observable ObservableObject migration").aliasedClauses
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Keyword Query Parser
+ * Splits a search query into web-search syntax and prefix terms for PostgreSQL full-text search
+ */
+
+import { type AliasedQuery, expandAppleAliases } from "./apple-aliases.js";
+
+export interface KeywordQuery {
+  // Input for websearch_to_tsquery: plain words, "quoted phrases", OR, -exclusions
+  text: string;
+  // Sanitized to_tsquery prefix terms, e.g. "nspersistentcloud:*"
+  prefixTerms: string[];
+  // OR-separated clauses of text with Apple jargon cut out for alias expansion,
+  // empty when the query mentions none
+  aliasedClauses: AliasedQuery[];
+}
+
+// websearch_to_tsquery's OR operator (any case), outside "quoted phrases"
+const OR_OPERATOR_PATTERN = /\s+or\s+(?=(?:[^"]*"[^"]*")*[^"]*$)/i;
+
+// Partial symbol names ending in "*", e.g. NSPersistentCloud*
+const PREFIX_TERM_PATTERN = /(^|\s)([A-Za-z_][A-Za-z0-9_]*)\*(?=\s|$)/g;
+
+// Shorter prefixes would expand to a large share of the index
+const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * Parse a query into websearch text and prefix terms
+ */
+export function parseKeywordQuery(query: string): KeywordQuery {
+  const prefixTerms: string[] = [];
+
+  const text = query
+    .replace(PREFIX_TERM_PATTERN, (match, leading: string, term: string) => {
+      if (term.length < MIN_PREFIX_LENGTH) return match;
+      prefixTerms.push(`${term.toLowerCase()}:*`);
+      return leading;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const clauses = text.split(OR_OPERATOR_PATTERN).map(expandAppleAliases);
+  const aliasedClauses = clauses.some((clause) => clause.expansions.length > 0)
+    ? clauses
+    : [];
+
+  return { text, prefixTerms, aliasedClauses };
+}
@@ -0,0 +1,195 @@
+/**
+ * Search Filter Utility
+ * Validates search tool filters and resolves them to URL and availability constraints
+ */
+
+import type {
+  SearchContentType,
+  SearchFilters,
+  SearchPlatform,
+} from "../types/index.js";
+
+export interface UrlConstraint {
+  prefix: string;
+  // Match the prefix as a whole path segment (prefix itself or prefix + "/...")
+  pathBoundary: boolean;
+}
+
+export interface FilterValidationResult {
+  isValid: boolean;
+  filters?: SearchFilters;
+  error?: string;
+}
+
+const DOCUMENTATION_BASE = "https://developer.apple.com/documentation";
+
+const CONTENT_TYPE_PREFIXES: Record<SearchContentType, string> = {
+  documentation: `${DOCUMENTATION_BASE}/`,
+  video: "https://www.youtube.com/",
+  hig: "https://developer.apple.com/design/human-interface-guidelines/",
+};
+
+export const SEARCH_CONTENT_TYPES = Object.keys(
+  CONTENT_TYPE_PREFIXES
+) as SearchContentType[];
+
+// Platform names as written in documentation availability, e.g. "visionOS 1.0+"
+const PLATFORM_NAMES: Record<SearchPlatform, string> = {
+  ios: "iOS",
+  ipados: "iPadOS",
+  macos: "macOS",
+  "mac-catalyst": "Mac Catalyst",
+  tvos: "tvOS",
+  watchos: "watchOS",
+  visionos: "visionOS",
+};
+
+export const SEARCH_PLATFORMS = Object.keys(PLATFORM_NAMES) as SearchPlatform[];
+
+/**
+ * Validate raw search tool arguments and build normalized filters
+ */
+export function validateSearchFilters(args: {
+  framework?: unknown;
+  platform?: unknown;
+  content_type?: unknown;
+  url_prefix?: unknown;
+}): FilterValidationResult {
+  const filters: SearchFilters = {};
+
+  if (args.framework !== undefined) {
+    if (typeof args.framework !== "string") {
+      return { isValid: false, error: "framework must be a string" };
+    }
+
+    // Accept "swiftui", "SwiftUI", "/documentation/swiftui" or a full URL
+    const framework = args.framework
+      .trim()
+      .replace(/^https?:\/\/developer\.apple\.com/i, "")
+      .replace(/^\/?documentation\//i, "")
+      .replace(/^\/+|\/+$/g, "")
+      .toLowerCase();
+
+    if (!/^[a-z0-9_.-]+(\/[a-z0-9_.()-]+)*$/.test(framework)) {
+      return {
+        isValid: false,
+        error: `Invalid framework: ${args.framework}. Use a framework path such as "swiftui" or "/documentation/swiftui"`,
+      };
+    }
+    filters.framework = framework;
+  }
+
+  if (args.platform !== undefined) {
+    // Accept "iOS", "ios", "Mac Catalyst" or "mac-catalyst"
+    const platform =
+      typeof args.platform === "string"
+        ? args.platform.trim().toLowerCase().replace(/\s+/g, "-")
+        : "";
+
+    if (!SEARCH_PLATFORMS.includes(platform as SearchPlatform)) {
+      return {
+        isValid: false,
+        error: `Invalid platform: ${String(args.platform)}. Supported values: ${SEARCH_PLATFORMS.join(", ")}`,
+      };
+    }
+    filters.platform = platform as SearchPlatform;
+  }
+
+  if (args.content_type !== undefined) {
+    if (
+      !SEARCH_CONTENT_TYPES.includes(args.content_type as SearchContentType)
+    ) {
+      return {
+        isValid: false,
+        error: `Invalid content_type: ${String(args.content_type)}. Supported values: ${SEARCH_CONTENT_TYPES.join(", ")}`,
+      };
+    }
+    filters.contentType = args.content_type as SearchContentType;
+  }
+
+  if (args.url_prefix !== undefined) {
+    if (
+      typeof args.url_prefix !== "string" ||
+      !/^https?:\/\/\S+$/i.test(args.url_prefix.trim()) ||
+      args.url_prefix.length > 200
+    ) {
+      return {
+        isValid: false,
+        error:
+          "url_prefix must be an absolute http(s) URL prefix of at most 200 characters",
+      };
+    }
+    filters.urlPrefix = args.url_prefix
+      .trim()
+      .replace(/^http:\/\//i, "https://");
+  }
+
+  return {
+    isValid: true,
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+  };
+}
+
+/**
+ * Resolve filters to URL constraints, all of which must match
+ */
+export function resolveUrlConstraints(
+  filters?: SearchFilters
+): UrlConstraint[] {
+  if (!filters) return [];
+
+  const constraints: UrlConstraint[] = [];
+
+  if (filters.framework) {
+    constraints.push({
+      prefix: `${DOCUMENTATION_BASE}/${filters.framework}`,
+      pathBoundary: true,
+    });
+  }
+
+  if (filters.contentType) {
+    constraints.push({
+      prefix: CONTENT_TYPE_PREFIXES[filters.contentType],
+      pathBoundary: false,
+    });
+  }
+
+  if (filters.urlPrefix) {
+    constraints.push({ prefix: filters.urlPrefix, pathBoundary: false });
+  }
+
+  return constraints;
+}
+
+/**
+ * POSIX regex matching a platform's availability marker, e.g. "iOS 17.0+".
+ * Apple documentation pages list availability at the top, in their first chunk
+ */
+export function platformAvailabilityPattern(platform: SearchPlatform): string {
+  return `(^|[^A-Za-z])${PLATFORM_NAMES[platform]} [0-9]+(\\.[0-9]+)*\\+`;
+}
+
+/**
+ * Escape LIKE wildcards so prefixes match literally
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Describe filters for log lines
+ */
+export function describeFilters(filters?: SearchFilters): string {
+  if (!filters) return "none";
+
+  return (
+    [
+      filters.framework && `framework=${filters.framework}`,
+      filters.platform && `platform=${filters.platform}`,
+      filters.contentType && `content_type=${filters.contentType}`,
+      filters.urlPrefix && `url_prefix=${filters.urlPrefix}`,
+    ]
+      .filter(Boolean)
+      .join(", ") || "none"
+  );
+}
@@ -107,3 +107,40 @@ export function validateAndNormalizeUrl(url: string): UrlValidationResult {
     };
   }
 }
+
+const BREADCRUMB_SECTIONS: Array<{ prefix: string; label: string | null }> = [
+  { prefix: "/documentation/", label: null },
+  {
+    prefix: "/design/human-interface-guidelines/",
+    label: "Human Interface Guidelines",
+  },
+];
+
+/**
+ * Parent path of an Apple Developer page, used to tell apart pages that share
+ * a title, e.g. "swiftui › view" for /documentation/swiftui/view/init(_:).
+ * Returns null for videos and top-level pages
+ */
+export function buildBreadcrumb(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname.toLowerCase() !== "developer.apple.com") return null;
+
+    const section = BREADCRUMB_SECTIONS.find((s) =>
+      parsed.pathname.startsWith(s.prefix)
+    );
+    if (!section) return null;
+
+    const parents = parsed.pathname
+      .slice(section.prefix.length)
+      .split("/")
+      .filter(Boolean)
+      .slice(0, -1)
+      .map((segment) => decodeURIComponent(segment));
+    const crumbs = section.label ? [section.label, ...parents] : parents;
+
+    return crumbs.length > 0 ? crumbs.join(" › ") : null;
+  } catch {
+    return null;
+  }
+}
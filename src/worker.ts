@@ -6,6 +6,7 @@
 
 import { HEALTH_STATUS, SERVER_MANIFEST } from "./mcp/manifest.js";
 import { MCPProtocolHandler } from "./mcp/protocol-handler.js";
+import { CircuitBreaker } from "./services/circuit-breaker.js";
 import { createServices } from "./services/index.js";
 import type { WorkerEnv } from "./types/index.js";
 import { logger } from "./utils/logger.js";
@@ -46,6 +47,27 @@ export default {
         );
       }
 
+      // Inference provider circuit states - reads D1, kept off the liveness path
+      if (request.method === "GET" && url.pathname === "/health/circuits") {
+        const circuits = await new CircuitBreaker(env.DB)
+          .listStatuses()
+          .catch(() => undefined);
+
+        return new Response(
+          JSON.stringify({
+            circuits,
+            timestamp: new Date().toISOString(),
+          }),
+          {
+            status: circuits ? 200 : 503,
+            headers: {
+              "Content-Type": "application/json",
+              "Cache-Control": "no-cache",
+            },
+          }
+        );
+      }
+
       // Manifest endpoint - server discovery
       if (request.method === "GET" && url.pathname === "/manifest") {
         return new Response(JSON.stringify(SERVER_MANIFEST), {